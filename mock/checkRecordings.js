@@ -0,0 +1,118 @@
+import assert from 'assert/strict';
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createFlowiseMock, parseRecording } from './flowiseMock.js';
+import { createServerSentEventParser } from './serverSentEvents.js';
+
+/**
+ * Replays the recordings through the mock and checks what the widget would receive, run with `yarn mock:check`
+ */
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const recordingsDir = process.env.MOCK_RECORDINGS_DIR || path.join(__dirname, 'recordings');
+
+/** @param {string} scenario */
+const readRecording = (scenario) => parseRecording(fs.readFileSync(path.join(recordingsDir, `${scenario}.sse`), 'utf8'));
+
+/** @param {import('./flowiseMock.js').Recording} recording */
+const getRecordedTokens = (recording) =>
+  recording.steps
+    .flatMap((step) => (step.type === 'event' ? [JSON.parse(step.data)] : []))
+    .filter((event) => event.event === 'token')
+    .map((event) => event.data)
+    .join('');
+
+/** @param {string} text */
+const parseStream = (text) => {
+  /** @type {{ event: string; data: any }[]} */
+  const events = [];
+  const parser = createServerSentEventParser({ onMessage: ({ data }) => events.push(JSON.parse(data)) });
+  parser.push(text);
+  parser.end();
+  return events;
+};
+
+const checks = {
+  'every recording parses': () => {
+    fs.readdirSync(recordingsDir)
+      .filter((file) => file.endsWith('.sse'))
+      .forEach((file) => {
+        const recording = readRecording(path.basename(file, '.sse'));
+        assert.ok(recording.status || recording.steps.some((step) => step.type === 'event'), `${file} has no events`);
+      });
+  },
+
+  /** @param {string} baseUrl */
+  'a streamed prediction replays the recorded events': async (baseUrl) => {
+    const response = await fetch(`${baseUrl}/api/v1/prediction/check`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question: 'Hi', chatId: 'check-stream', streaming: true }),
+    });
+    assert.equal(response.headers.get('content-type'), 'text/event-stream');
+    const events = parseStream(await response.text());
+    assert.equal(events[0].event, 'start');
+    assert.equal(events[events.length - 1].event, 'end');
+    const tokens = events.filter((event) => event.event === 'token').map((event) => event.data);
+    assert.equal(tokens.join(''), getRecordedTokens(readRecording('default')));
+    const metadata = events.find((event) => event.event === 'metadata');
+    assert.equal(metadata?.data.chatId, 'check-stream');
+  },
+
+  /** @param {string} baseUrl */
+  'the replayed answer is saved to the chat history': async (baseUrl) => {
+    const response = await fetch(`${baseUrl}/api/v1/chatmessage/check?chatId=check-stream`);
+    const messages = await response.json();
+    assert.deepEqual(
+      messages.map((message) => message.role),
+      ['userMessage', 'apiMessage'],
+    );
+    assert.equal(messages[1].content, getRecordedTokens(readRecording('default')));
+  },
+
+  /** @param {string} baseUrl */
+  'a prediction without streaming answers with the recorded text': async (baseUrl) => {
+    const response = await fetch(`${baseUrl}/api/v1/prediction/check`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question: '/agent When is the store open?', chatId: 'check-query' }),
+    });
+    const prediction = await response.json();
+    assert.equal(prediction.text, getRecordedTokens(readRecording('agent')));
+    assert.equal(prediction.chatId, 'check-query');
+  },
+
+  /** @param {string} baseUrl */
+  'a status recording answers with the HTTP error': async (baseUrl) => {
+    const response = await fetch(`${baseUrl}/api/v1/prediction/check`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question: 'Hi', overrideConfig: { mockScenario: 'ratelimit' }, streaming: true }),
+    });
+    assert.equal(response.status, readRecording('ratelimit').status?.code);
+  },
+};
+
+const app = express();
+app.use(express.json());
+app.use(createFlowiseMock({ recordingsDir }));
+
+const server = app.listen(0, async () => {
+  const address = server.address();
+  const baseUrl = `http://localhost:${typeof address === 'object' && address ? address.port : 0}`;
+  let failures = 0;
+  for (const [name, check] of Object.entries(checks)) {
+    try {
+      await check(baseUrl);
+      console.info(`✓ ${name}`);
+    } catch (error) {
+      failures += 1;
+      console.error(`✗ ${name}`);
+      console.error(error);
+    }
+  }
+  server.close();
+  process.exitCode = failures ? 1 : 0;
+});
@@ -0,0 +1,271 @@
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import { randomUUID } from 'crypto';
+import { createServerSentEventParser, formatServerSentEvent } from './serverSentEvents.js';
+
+/**
+ * @typedef {import('../src/queries/streamProtocol').StreamEvent} StreamEvent
+ * @typedef {import('../src/queries/sendMessageQuery').ChatMessageRecord} ChatMessageRecord
+ * @typedef {{ type: 'event'; data: string } | { type: 'wait'; ms: number } | { type: 'disconnect' }} RecordingStep
+ * @typedef {{ status?: { code: number; message: string }; steps: RecordingStep[] }} Recording
+ */
+
+const defaultDelay = 30;
+
+/**
+ * Reads a recorded prediction stream, as captured from Flowise with RECORD_STREAMS_DIR.
+ * Comments script the replay:
+ *   `: delay 50`   pause between the following events, in ms
+ *   `: wait 2000`  pause once
+ *   `: disconnect` drop the connection
+ *   `: status 429 Too many requests` answer with an error instead of a stream
+ *
+ * @param {string} text
+ * @returns {Recording}
+ */
+export const parseRecording = (text) => {
+  /** @type {Recording} */
+  const recording = { steps: [] };
+  let delay = defaultDelay;
+  const parser = createServerSentEventParser({
+    onMessage: ({ data }) => {
+      if (delay > 0) recording.steps.push({ type: 'wait', ms: delay });
+      recording.steps.push({ type: 'event', data });
+    },
+    onComment: (comment) => {
+      const [directive, value, ...rest] = comment.trim().split(/\s+/);
+      if (directive === 'delay') delay = Number(value) || 0;
+      if (directive === 'wait') recording.steps.push({ type: 'wait', ms: Number(value) || 0 });
+      if (directive === 'disconnect') recording.steps.push({ type: 'disconnect' });
+      if (directive === 'status') recording.status = { code: Number(value), message: rest.join(' ') };
+    },
+  });
+  parser.push(text);
+  parser.end();
+  return recording;
+};
+
+/** @param {number} ms */
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** @param {string} data */
+const toStreamEvent = (data) => {
+  try {
+    return /** @type {StreamEvent} */ (JSON.parse(data));
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/** @param {unknown} value */
+const stringifyField = (value) => (value === undefined || typeof value === 'string' ? value : JSON.stringify(value));
+
+/**
+ * Stands in for a Flowise instance: predictions replay recorded event streams, everything else is kept in memory.
+ * The recording is picked by `overrideConfig.mockScenario`, or a question starting with `/name`, and defaults to `default`.
+ *
+ * @param {{ recordingsDir: string; chatbotConfigPath?: string }} options
+ */
+export const createFlowiseMock = ({ recordingsDir, chatbotConfigPath }) => {
+  const router = express.Router();
+  const upload = multer({ storage: multer.memoryStorage() });
+  /** @type {Map<string, ChatMessageRecord[]>} */
+  const chatMessages = new Map();
+  /** @type {Set<string>} chat ids whose running prediction was aborted */
+  const abortedChats = new Set();
+
+  /** @param {string} scenario */
+  const readRecording = (scenario) => {
+    // recordings are read on every request so they can be edited while the server runs
+    const filePath = path.join(recordingsDir, `${path.basename(scenario)}.sse`);
+    if (!fs.existsSync(filePath)) return undefined;
+    return parseRecording(fs.readFileSync(filePath, 'utf8'));
+  };
+
+  /** @param {Record<string, any>} body */
+  const getScenario = (body) => {
+    if (typeof body.overrideConfig?.mockScenario === 'string') return body.overrideConfig.mockScenario;
+    const match = /^\/([\w-]+)/.exec(body.question ?? '');
+    return match ? match[1] : 'default';
+  };
+
+  /**
+   * Recorded metadata belongs to another chat, so it is rewritten for the current request
+   *
+   * @param {StreamEvent} event
+   * @param {{ chatId: string; chatMessageId: string; question: string }} metadata
+   * @returns {StreamEvent}
+   */
+  const withRequestMetadata = (event, metadata) => (event.event === 'metadata' ? { event: 'metadata', data: { ...event.data, ...metadata } } : event);
+
+  /**
+   * Collects what the widget would have built from the stream, as the non-streaming response and the saved history
+   *
+   * @param {StreamEvent[]} events
+   */
+  const toPrediction = (events) => {
+    /** @type {Record<string, any>} */
+    const prediction = { text: '' };
+    events.forEach(({ event, data }) => {
+      if (event === 'token') prediction.text += data;
+      else if (event === 'metadata') Object.assign(prediction, data);
+      else if (['sourceDocuments', 'usedTools', 'fileAnnotations', 'agentReasoning', 'action', 'artifacts'].includes(event)) prediction[event] = data;
+    });
+    return prediction;
+  };
+
+  /**
+   * @param {string} chatId
+   * @param {string} question
+   * @param {Record<string, any>} prediction
+   */
+  const saveChatMessages = (chatId, question, prediction) => {
+    const createdDate = new Date().toISOString();
+    const messages = chatMessages.get(chatId) ?? [];
+    messages.push(
+      { id: randomUUID(), role: 'userMessage', content: question, chatId, createdDate },
+      {
+        id: prediction.chatMessageId,
+        role: 'apiMessage',
+        content: prediction.text,
+        chatId,
+        createdDate,
+        sourceDocuments: stringifyField(prediction.sourceDocuments),
+        usedTools: stringifyField(prediction.usedTools),
+        fileAnnotations: stringifyField(prediction.fileAnnotations),
+        agentReasoning: stringifyField(prediction.agentReasoning),
+        artifacts: stringifyField(prediction.artifacts),
+        action: stringifyField(prediction.action),
+        followUpPrompts: stringifyField(prediction.followUpPrompts),
+      },
+    );
+    chatMessages.set(chatId, messages);
+  };
+
+  router.post('/api/v1/prediction/:identifier', async (req, res) => {
+    const body = req.body ?? {};
+    const scenario = getScenario(body);
+    const recording = readRecording(scenario);
+    if (!recording) {
+      return res.status(404).json({ error: `No recording named ${scenario} in ${recordingsDir}` });
+    }
+    if (recording.status) {
+      return res.status(recording.status.code).send(recording.status.message);
+    }
+
+    const chatId = body.chatId || randomUUID();
+    const metadata = { chatId, chatMessageId: randomUUID(), question: body.question ?? '' };
+    const events = recording.steps.flatMap((step) => {
+      const event = step.type === 'event' ? toStreamEvent(step.data) : undefined;
+      return event ? [withRequestMetadata(event, metadata)] : [];
+    });
+
+    if (!body.streaming) {
+      const error = events.find((event) => event.event === 'error');
+      if (error) return res.status(500).json({ message: error.data });
+      const prediction = { ...toPrediction(events), ...metadata };
+      saveChatMessages(chatId, metadata.question, prediction);
+      return res.json(prediction);
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    let isClosed = false;
+    // the request is already read, only the response tells when the client goes away
+    res.on('close', () => {
+      isClosed = true;
+    });
+
+    abortedChats.delete(chatId);
+    /** @type {StreamEvent[]} */
+    const sentEvents = [];
+    for (const step of recording.steps) {
+      if (isClosed) return;
+      if (abortedChats.has(chatId)) {
+        abortedChats.delete(chatId);
+        res.write(formatServerSentEvent(JSON.stringify({ event: 'abort', data: '[DONE]' })));
+        return res.end();
+      }
+      if (step.type === 'wait') {
+        await sleep(step.ms);
+      } else if (step.type === 'disconnect') {
+        // end the socket rather than the response, so the client sees a cut stream after what was already sent
+        return res.socket?.end();
+      } else {
+        const event = toStreamEvent(step.data);
+        if (event?.event === 'end' && !sentEvents.some(({ event }) => event === 'metadata')) {
+          // the widget needs the message id for feedback
+          sentEvents.push({ event: 'metadata', data: metadata });
+          res.write(formatServerSentEvent(JSON.stringify({ event: 'metadata', data: metadata })));
+        }
+        // unknown or malformed recorded events are sent as they are, to see how the widget copes
+        const data = event ? JSON.stringify(withRequestMetadata(event, metadata)) : step.data;
+        if (event) sentEvents.push(withRequestMetadata(event, metadata));
+        res.write(formatServerSentEvent(data));
+      }
+    }
+
+    if (sentEvents.some((event) => event.event === 'end')) {
+      saveChatMessages(chatId, metadata.question, { ...toPrediction(sentEvents), ...metadata });
+    }
+    res.end();
+  });
+
+  router.put('/api/v1/chatmessage/abort/:identifier/:chatId', (req, res) => {
+    abortedChats.add(req.params.chatId);
+    res.json({ status: 200, message: 'Chat message aborted' });
+  });
+
+  router.get('/api/v1/chatmessage/:identifier', (req, res) => {
+    const chatId = req.query.chatId;
+    if (!chatId || typeof chatId !== 'string') {
+      return res.status(400).json({ error: 'Bad Request' });
+    }
+    res.json(chatMessages.get(chatId) ?? []);
+  });
+
+  router.get('/api/v1/public-chatbotConfig/:identifier', (_req, res) => {
+    if (!chatbotConfigPath || !fs.existsSync(chatbotConfigPath)) return res.json({});
+    res.json(JSON.parse(fs.readFileSync(chatbotConfigPath, 'utf8')));
+  });
+
+  router.get('/api/v1/chatflows-streaming/:identifier', (_req, res) => {
+    res.json({ isStreaming: true });
+  });
+
+  router.post('/api/v1/feedback/:identifier', (req, res) => {
+    res.json({ id: randomUUID(), ...req.body });
+  });
+
+  router.put('/api/v1/feedback/:id', (req, res) => {
+    res.json({ id: req.params.id, ...req.body });
+  });
+
+  router.post('/api/v1/leads', (req, res) => {
+    res.json({ id: randomUUID(), ...req.body });
+  });
+
+  router.post('/api/v1/attachments/:identifier/:chatId', upload.array('files'), (req, res) => {
+    const files = Array.isArray(req.files) ? req.files : [];
+    res.json(
+      files.map((file) => ({
+        name: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        content: file.mimetype.startsWith('text/') ? file.buffer.toString('utf8') : `[${file.originalname}]`,
+      })),
+    );
+  });
+
+  // nothing under the API reaches the proxy while mocking
+  router.use('/api/v1', (_req, res) => {
+    res.status(404).json({ error: 'Not Found' });
+  });
+
+  return router;
+};
@@ -0,0 +1,88 @@
+/**
+ * @typedef {{ event: string; data: string; id: string }} ServerSentEvent
+ */
+
+/**
+ * Incremental Server-Sent Events parser following the WHATWG event stream rules.
+ * Chunks may split lines anywhere, lines end with LF, CR or CRLF, and an event is dispatched on a blank line.
+ *
+ * @param {{ onMessage: (message: ServerSentEvent) => void; onComment?: (comment: string) => void }} handlers
+ */
+export const createServerSentEventParser = ({ onMessage, onComment }) => {
+  let buffer = '';
+  let isStart = true;
+  let eventType = '';
+  let data = '';
+  let lastEventId = '';
+
+  const dispatch = () => {
+    if (data !== '') {
+      onMessage({ event: eventType || 'message', data: data.endsWith('\n') ? data.slice(0, -1) : data, id: lastEventId });
+    }
+    eventType = '';
+    data = '';
+  };
+
+  /** @param {string} line */
+  const processLine = (line) => {
+    if (line === '') return dispatch();
+    if (line.startsWith(':')) return onComment?.(line.slice(1).replace(/^ /, ''));
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    const value = colonIndex === -1 ? '' : line.slice(colonIndex + 1).replace(/^ /, '');
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        data += `${value}\n`;
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      // retry only tunes reconnection, and any other field, such as Flowise's `message:` line, is ignored
+    }
+  };
+
+  return {
+    /** @param {string} chunk */
+    push(chunk) {
+      buffer += chunk;
+      if (isStart && buffer) {
+        if (buffer.startsWith('\uFEFF')) buffer = buffer.slice(1);
+        isStart = false;
+      }
+
+      let lineStart = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        const char = buffer[i];
+        if (char !== '\n' && char !== '\r') continue;
+        // a trailing CR may be the first half of a CRLF split across chunks
+        if (char === '\r' && i === buffer.length - 1) break;
+        processLine(buffer.slice(lineStart, i));
+        if (char === '\r' && buffer[i + 1] === '\n') i++;
+        lineStart = i + 1;
+      }
+      buffer = buffer.slice(lineStart);
+    },
+    /** Ends the stream, an event without its closing blank line is discarded */
+    end() {
+      if (buffer.endsWith('\r')) processLine(buffer.slice(0, -1));
+      buffer = '';
+      eventType = '';
+      data = '';
+    },
+  };
+};
+
+/**
+ * Formats a message the way Flowise writes it, clients ignore the `message:` field
+ *
+ * @param {string} data
+ */
+export const formatServerSentEvent = (data) =>
+  `message:\n${data
+    .split(/\r\n|\r|\n/)
+    .map((line) => `data: ${line}`)
+    .join('\n')}\n\n`;
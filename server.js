@@ -3,12 +3,14 @@ Error.stackTraceLimit = 0;
 import express from 'express';
 import cors from 'cors';
 import fetch from 'node-fetch';
+import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
 import axios from 'axios';
 import multer from 'multer';
 import FormData from 'form-data';
+import crypto from 'crypto';
 import { generateEmbedScript } from './src/utils/embedScript.js';
 
 dotenv.config();
@@ -18,17 +20,29 @@ const __dirname = path.dirname(__filename);
 
 const API_HOST = process.env.API_HOST;
 const FLOWISE_API_KEY = process.env.FLOWISE_API_KEY;
-
-if (!API_HOST) {
+// answer from recorded streams instead of a Flowise instance, see mock/recordings
+const MOCK_FLOWISE = process.env.MOCK_FLOWISE === 'true';
+// save every proxied prediction stream, to be replayed later by the mock
+const RECORD_STREAMS_DIR = process.env.RECORD_STREAMS_DIR;
+// chat history is read with the Flowise API key, so it is only served when enabled and for chatIds signed by the host
+const ALLOW_HISTORY_RESTORE = process.env.ALLOW_HISTORY_RESTORE === 'true';
+const HISTORY_RESTORE_SECRET = process.env.HISTORY_RESTORE_SECRET;
+
+if (!API_HOST && !MOCK_FLOWISE) {
   console.error('API_HOST is not set in environment variables');
   process.exit(1);
 }
 
-if (!FLOWISE_API_KEY) {
+if (!FLOWISE_API_KEY && !MOCK_FLOWISE) {
   console.error('FLOWISE_API_KEY is not set in environment variables');
   process.exit(1);
 }
 
+if (ALLOW_HISTORY_RESTORE && !HISTORY_RESTORE_SECRET) {
+  console.error('HISTORY_RESTORE_SECRET is required when ALLOW_HISTORY_RESTORE is set');
+  process.exit(1);
+}
+
 const parseChatflows = () => {
   try {
     const chatflows = new Map();
@@ -45,7 +59,12 @@ const parseChatflows = () => {
         key !== 'PORT' &&
         key !== 'HOST' &&
         key !== 'BASE_URL' &&
-        key !== 'NODE_ENV'
+        key !== 'NODE_ENV' &&
+        key !== 'MOCK_FLOWISE' &&
+        key !== 'MOCK_RECORDINGS_DIR' &&
+        key !== 'RECORD_STREAMS_DIR' &&
+        key !== 'ALLOW_HISTORY_RESTORE' &&
+        key !== 'HISTORY_RESTORE_SECRET'
       );
     });
 
@@ -88,7 +107,7 @@ const parseChatflows = () => {
   }
 };
 
-const chatflows = parseChatflows();
+const chatflows = MOCK_FLOWISE ? new Map() : parseChatflows();
 
 const getChatflowDetails = (identifier) => {
   let chatflow = chatflows.get(identifier);
@@ -180,7 +199,8 @@ const validateApiKey = (req, res, next) => {
   const pathParts = req.path.split('/').filter(Boolean);
 
   if (pathParts.length >= 3) {
-    identifier = pathParts[3];
+    // /api/v1/chatmessage/abort/:identifier/:chatId
+    identifier = pathParts[2] === 'chatmessage' && pathParts[3] === 'abort' ? pathParts[4] : pathParts[3];
   } else {
     identifier = req.query.chatflowId?.split('/')[0];
   }
@@ -225,6 +245,18 @@ const validateApiKey = (req, res, next) => {
   return res.status(401).json({ error: 'Unauthorized' });
 };
 
+if (MOCK_FLOWISE) {
+  // only loaded when mocking, production never needs it
+  const { createFlowiseMock } = await import('./mock/flowiseMock.js');
+  console.info('\x1b[36m%s\x1b[0m', 'Mocking Flowise with recorded streams, any chatflow identifier is accepted');
+  app.use(
+    createFlowiseMock({
+      recordingsDir: process.env.MOCK_RECORDINGS_DIR || path.join(__dirname, 'mock', 'recordings'),
+      chatbotConfigPath: path.join(__dirname, 'mock', 'chatbotConfig.json'),
+    }),
+  );
+}
+
 app.use(validateApiKey);
 
 const proxyEndpoints = {
@@ -314,6 +346,10 @@ const handleProxy = async (req, res, targetPath) => {
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache');
       res.setHeader('Connection', 'keep-alive');
+      if (RECORD_STREAMS_DIR) {
+        fs.mkdirSync(RECORD_STREAMS_DIR, { recursive: true });
+        response.body.pipe(fs.createWriteStream(path.join(RECORD_STREAMS_DIR, `${identifier}-${Date.now()}.sse`)));
+      }
       return response.body.pipe(res);
     }
 
@@ -374,6 +410,82 @@ app.post('/api/v1/attachments/:identifier/:chatId', upload.array('files'), async
   }
 });
 
+app.put('/api/v1/chatmessage/abort/:identifier/:chatId', async (req, res) => {
+  try {
+    const chatflow = req.chatflow;
+    const targetUrl = `${API_HOST}/api/v1/chatmessage/abort/${chatflow.chatflowId}/${req.params.chatId}`;
+
+    const response = await fetch(targetUrl, {
+      method: 'PUT',
+      headers: {
+        Authorization: `Bearer ${FLOWISE_API_KEY}`,
+      },
+    });
+
+    if (!response.ok) {
+      console.error(`Abort proxy error: ${response.status} ${response.statusText}`);
+      return res.status(response.status).json({ error: `Abort proxy error: ${response.statusText}` });
+    }
+
+    const contentType = response.headers.get('content-type');
+    if (contentType?.includes('application/json')) {
+      return res.json(await response.json());
+    }
+    return res.send(await response.text());
+  } catch (error) {
+    console.error('Abort proxy error:', error);
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+});
+
+/**
+ * The signature a host issues for a chatId of one of its users: HMAC-SHA256 of `<identifier>:<chatId>` with HISTORY_RESTORE_SECRET, in hex
+ */
+const isChatIdSignatureValid = (identifier, chatId, signature) => {
+  if (typeof signature !== 'string') return false;
+  const expected = Buffer.from(crypto.createHmac('sha256', HISTORY_RESTORE_SECRET).update(`${identifier}:${chatId}`).digest('hex'));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+app.get('/api/v1/chatmessage/:identifier', async (req, res) => {
+  try {
+    if (!ALLOW_HISTORY_RESTORE) {
+      return res.status(404).json({ error: 'Not Found' });
+    }
+
+    const chatId = req.query.chatId;
+    if (!chatId || typeof chatId !== 'string') {
+      return res.status(400).json({ error: 'Bad Request' });
+    }
+    // knowing a chatId is not enough, they can be guessed
+    if (!isChatIdSignatureValid(req.params.identifier, chatId, req.query.signature)) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const chatflow = req.chatflow;
+    const params = new URLSearchParams({ chatId, order: 'ASC' });
+    const targetUrl = `${API_HOST}/api/v1/chatmessage/${chatflow.chatflowId}?${params}`;
+
+    const response = await fetch(targetUrl, {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${FLOWISE_API_KEY}`,
+      },
+    });
+
+    if (!response.ok) {
+      console.error(`Chat history proxy error: ${response.status} ${response.statusText}`);
+      return res.status(response.status).json({ error: `Chat history proxy error: ${response.statusText}` });
+    }
+
+    return res.json(await response.json());
+  } catch (error) {
+    console.error('Chat history proxy error:', error);
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+});
+
 app.use((_req, res) => {
   res.status(404).json({ error: 'Not Found' });
 });
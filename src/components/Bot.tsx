@@ -1,4 +1,4 @@
-import { createSignal, createEffect, For, onMount, Show, mergeProps, on, createMemo } from 'solid-js';
+import { createSignal, createEffect, For, Index, onMount, Show, mergeProps, on, createMemo, onCleanup, untrack } from 'solid-js';
 import { v4 as uuidv4 } from 'uuid';
 import {
   sendMessageQuery,
@@ -8,11 +8,30 @@ import {
   getChatbotConfig,
   FeedbackRatingType,
   createAttachmentWithFormData,
+  sendMessageStreamQuery,
+  abortMessageQuery,
+  getChatMessagesQuery,
+  ChatMessageRecord,
 } from '@/queries/sendMessageQuery';
+import {
+  Action,
+  AgentReasoning,
+  Artifact,
+  decodePayload,
+  decodePrediction,
+  FileAnnotation,
+  parseStreamEvent,
+  SourceDocument,
+  StreamEvent,
+  StreamMetadata,
+  UsedTool,
+} from '@/queries/streamProtocol';
+import { predictionToEvents, reduceResponse } from '@/utils/responseReducer';
 import { TextInput } from './inputs/textInput';
 import { GuestBubble } from './bubbles/GuestBubble';
 import { BotBubble } from './bubbles/BotBubble';
 import { LoadingBubble } from './bubbles/LoadingBubble';
+import { HistorySkeleton } from './bubbles/HistorySkeleton';
 import { StarterPromptBubble } from './bubbles/StarterPromptBubble';
 import {
   BotMessageTheme,
@@ -22,20 +41,60 @@ import {
   FeedbackTheme,
   DisclaimerPopUpTheme,
   DateTimeToggleTheme,
+  NetworkTheme,
+  TextToSpeechTheme,
+  VoiceModeTheme,
 } from '@/features/bubble/types';
 import { Badge } from './Badge';
 import { Popup, DisclaimerPopup } from '@/features/popup';
 import { Avatar } from '@/components/avatars/Avatar';
 import { DeleteButton, SendButton } from '@/components/buttons/SendButton';
 import { FilePreview } from '@/components/inputs/textInput/components/FilePreview';
-import { CircleDotIcon, SparklesIcon, TrashIcon } from './icons';
+import { RecordingWaveform } from '@/components/inputs/textInput/components/RecordingWaveform';
+import { CircleDotIcon, MessagesIcon, PauseIcon, RecordIcon, SparklesIcon, TrashIcon } from './icons';
 import { CancelButton } from './buttons/CancelButton';
-import { cancelAudioRecording, startAudioRecording, stopAudioRecording } from '@/utils/audioRecording';
+import {
+  audioRecorder,
+  cancelAudioRecording,
+  defaultMaximumRecordingTimeInSeconds,
+  pauseAudioRecording,
+  resumeAudioRecording,
+  startAudioRecording,
+  stopAudioRecording,
+} from '@/utils/audioRecording';
 import { LeadCaptureBubble } from '@/components/bubbles/LeadCaptureBubble';
-import { removeLocalStorageChatHistory, getLocalStorageChatflow, setLocalStorageChatflow, setCookie, getCookie } from '@/utils';
+import {
+  removeLocalStorageChatHistory,
+  getLocalStorageChatflow,
+  setLocalStorageChatflow,
+  setCookie,
+  getCookie,
+  getChatflowStorageId,
+  getRetryDelay,
+  getResponseErrorMessage,
+  dataURLToFile,
+  loadChatflowStorage,
+} from '@/utils';
+import { ChatStorageOption, createCachedChatStorage, resolveChatStorage } from '@/utils/chatStorage';
+import {
+  SavedConversation,
+  getConversationTitle,
+  getConversationsStorageKey,
+  getSavedConversations,
+  setSavedConversations,
+} from '@/utils/conversations';
+import { OutboxMessage, getOutboxStorageKey, getSavedOutbox, setSavedOutbox } from '@/utils/outbox';
+import { ConversationList, ConversationListItem, conversationListWidth } from './ConversationList';
+import { TranscriptMenu } from './TranscriptMenu';
+import { VoiceModeOverlay, VoiceModeState } from './VoiceModeOverlay';
+import { createTranscript, exportTranscript, parseTranscript, Transcript, TranscriptFormat } from '@/utils/transcript';
 import { cloneDeep } from 'lodash';
 import { FollowUpPromptBubble } from '@/components/bubbles/FollowUpPromptBubble';
-import { fetchEventSource, EventStreamContentType } from '@microsoft/fetch-event-source';
+import { EventStreamContentType } from '@microsoft/fetch-event-source';
+import { EmitWidgetEvent } from '@/utils/widgetEvents';
+import { formatTranslation, LayoutDirection, resolveDirection, resolveTranslations, TranslationOverrides } from '@/i18n';
+import { createSpeechPlayer, resolveTextToSpeechProvider, SpeechState, toSpeechText } from '@/utils/textToSpeech';
+import { watchVoiceActivity } from '@/utils/voiceActivity';
 
 export type FileEvent<T = EventTarget> = {
   target: T;
@@ -61,7 +120,7 @@ export type UploadsConfig = {
 
 type FilePreviewData = string | ArrayBuffer;
 
-type FilePreview = {
+export type FilePreview = {
   data: FilePreviewData;
   mime: string;
   name: string;
@@ -71,28 +130,9 @@ type FilePreview = {
 
 type messageType = 'apiMessage' | 'userMessage' | 'usermessagewaiting' | 'leadCaptureMessage';
 
-export type IAgentReasoning = {
-  agentName?: string;
-  messages?: string[];
-  usedTools?: any[];
-  artifacts?: FileUpload[];
-  sourceDocuments?: any[];
-  instructions?: string;
-  nextAgent?: string;
-};
+export type IAgentReasoning = AgentReasoning;
 
-export type IAction = {
-  id?: string;
-  elements?: Array<{
-    type: string;
-    label: string;
-  }>;
-  mapping?: {
-    approve: string;
-    reject: string;
-    toolCalls: any[];
-  };
-};
+export type IAction = Action;
 
 export type FileUpload = Omit<FilePreview, 'preview'>;
 
@@ -100,17 +140,24 @@ export type MessageType = {
   messageId?: string;
   message: string;
   type: messageType;
-  sourceDocuments?: any;
-  fileAnnotations?: any;
+  sourceDocuments?: SourceDocument[];
+  fileAnnotations?: FileAnnotation[];
   fileUploads?: Partial<FileUpload>[];
-  artifacts?: Partial<FileUpload>[];
+  artifacts?: Artifact[];
   agentReasoning?: IAgentReasoning[];
-  usedTools?: any[];
+  usedTools?: UsedTool[];
   action?: IAction | null;
   rating?: FeedbackRatingType;
   id?: string;
   followUpPrompts?: string;
   dateTime?: string;
+  interrupted?: boolean;
+  // set on a question once it has been edited, each branch is the question and everything that followed it
+  branches?: MessageType[][];
+  branchIndex?: number;
+  // set on an answer once it has been regenerated, each version is a complete answer
+  versions?: MessageType[];
+  versionIndex?: number;
 };
 
 type IUploads = {
@@ -120,6 +167,12 @@ type IUploads = {
   mime: string;
 }[];
 
+export type BotControls = {
+  sendMessage: (text: string, uploads?: FileUpload[]) => void;
+  clearChat: () => void;
+  importConversation: (transcript: string | Transcript) => void;
+};
+
 type observerConfigType = (accessor: string | boolean | object | MessageType[]) => void;
 export type observersConfigType = Record<'observeUserInput' | 'observeLoading' | 'observeMessages', observerConfigType>;
 
@@ -155,7 +208,21 @@ export type BotProps = {
   disclaimer?: DisclaimerPopUpTheme;
   dateTimeToggle?: DateTimeToggleTheme;
   renderHTML?: boolean;
+  network?: NetworkTheme;
+  textToSpeech?: TextToSpeechTheme;
+  voiceMode?: VoiceModeTheme;
+  storage?: ChatStorageOption;
+  showConversations?: boolean;
+  chatId?: string;
+  restoreHistory?: boolean;
+  chatIdSignature?: string;
+  locale?: string;
+  direction?: LayoutDirection;
+  translations?: TranslationOverrides;
   closeBot?: () => void;
+  instanceId?: string;
+  registerControls?: (controls: BotControls | undefined) => void;
+  emitEvent?: EmitWidgetEvent;
 };
 
 export type LeadsConfig = {
@@ -167,8 +234,6 @@ export type LeadsConfig = {
   successMessage?: string;
 };
 
-const defaultWelcomeMessage = 'Hi there! How can I help?';
-
 /*const sourceDocuments = [
     {
         "pageContent": "I know some are talking about “living with COVID-19”. Tonight – I say that we will never just accept living with COVID-19. \r\n\r\nWe will continue to combat the virus as we do other diseases. And because this is a virus that mutates and spreads, we will stay on guard. \r\n\r\nHere are four common sense steps as we move forward safely.  \r\n\r\nFirst, stay protected with vaccines and treatments. We know how incredibly effective vaccines are. If you’re vaccinated and boosted you have the highest degree of protection. \r\n\r\nWe will never give up on vaccinating more Americans. Now, I know parents with kids under 5 are eager to see a vaccine authorized for their children. \r\n\r\nThe scientists are working hard to get that done and we’ll be ready with plenty of vaccines when they do. \r\n\r\nWe’re also ready with anti-viral treatments. If you get COVID-19, the Pfizer pill reduces your chances of ending up in the hospital by 90%.",
@@ -249,22 +314,27 @@ const defaultWelcomeMessage = 'Hi there! How can I help?';
 const defaultBackgroundColor = '#ffffff';
 const defaultTextColor = '#303235';
 const defaultTitleBackgroundColor = '#3B81F6';
+const chatSaveDelay = 1000;
 
 export const Bot = (botProps: BotProps & { class?: string }) => {
   // set a default value for showTitle if not set and merge with other props
   const props = mergeProps({ showTitle: true }, botProps);
+  const translations = createMemo(() => resolveTranslations(props.locale, props.translations));
+  const direction = createMemo(() => resolveDirection(props.direction, props.locale));
   let chatContainer: HTMLDivElement | undefined;
   let bottomSpacer: HTMLDivElement | undefined;
   let botContainer: HTMLDivElement | undefined;
 
   const [userInput, setUserInput] = createSignal('');
   const [loading, setLoading] = createSignal(false);
+  const [isReconnecting, setIsReconnecting] = createSignal(false);
+  const [isRestoringHistory, setIsRestoringHistory] = createSignal(false);
   const [sourcePopupOpen, setSourcePopupOpen] = createSignal(false);
   const [sourcePopupSrc, setSourcePopupSrc] = createSignal({});
   const [messages, setMessages] = createSignal<MessageType[]>(
     [
       {
-        message: props.welcomeMessage ?? defaultWelcomeMessage,
+        message: props.welcomeMessage ?? translations().welcomeMessage,
         type: 'apiMessage',
       },
     ],
@@ -292,6 +362,9 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
   const [isRecording, setIsRecording] = createSignal(false);
   const [recordingNotSupported, setRecordingNotSupported] = createSignal(false);
   const [isLoadingRecording, setIsLoadingRecording] = createSignal(false);
+  const [recordedMilliseconds, setRecordedMilliseconds] = createSignal(0);
+  const [isRecordingPaused, setIsRecordingPaused] = createSignal(false);
+  const [recordingStream, setRecordingStream] = createSignal<MediaStream>();
 
   // follow-up prompts
   const [followUpPromptsStatus, setFollowUpPromptsStatus] = createSignal<boolean>(false);
@@ -301,11 +374,35 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
   const [isDragActive, setIsDragActive] = createSignal(false);
   const [uploadedFiles, setUploadedFiles] = createSignal<{ file: File; type: string }[]>([]);
 
-  createMemo(() => {
-    const customerId = (props.chatflowConfig?.vars as any)?.customerId;
-    setChatId(customerId ? `${customerId.toString()}+${uuidv4()}` : uuidv4());
+  // saved conversations, docked beside the chat on wide full page layouts and shown as a drawer otherwise
+  const [conversations, setConversations] = createSignal<SavedConversation[]>([]);
+  const wideLayoutQuery = window.matchMedia('(min-width: 768px)');
+  const [isWideLayout, setIsWideLayout] = createSignal(wideLayoutQuery.matches);
+  const isConversationListDocked = () => !!props.isFullPage && isWideLayout();
+  const [isConversationListOpen, setIsConversationListOpen] = createSignal(false);
+  // opened when it docks, closed when it turns into a drawer
+  createEffect(on(isConversationListDocked, (isDocked) => setIsConversationListOpen(isDocked)));
+
+  onMount(() => {
+    const handleLayoutChange = (event: MediaQueryListEvent) => setIsWideLayout(event.matches);
+    wideLayoutQuery.addEventListener('change', handleLayoutChange);
+    onCleanup(() => wideLayoutQuery.removeEventListener('change', handleLayoutChange));
   });
 
+  // offline outbox
+  const [isOnline, setIsOnline] = createSignal(navigator.onLine);
+  const [outbox, setOutbox] = createSignal<OutboxMessage[]>([]);
+  // set when the chat could not be written to the storage, e.g. when its quota is exceeded
+  const [hasStorageError, setHasStorageError] = createSignal(false);
+
+  // only start a new chat when the customer changes, so chatflowConfig can be updated after init
+  const customerId = createMemo(() => (props.chatflowConfig?.vars as any)?.customerId);
+  createMemo(
+    on(customerId, (customerId) => {
+      setChatId(customerId ? `${customerId.toString()}+${uuidv4()}` : uuidv4());
+    }),
+  );
+
   onMount(() => {
     if (botProps?.observersConfig) {
       const { observeUserInput, observeLoading, observeMessages } = botProps.observersConfig;
@@ -332,6 +429,16 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
     }, 50);
   });
 
+  // persisted data is namespaced per instance so several widgets can share a page
+  const storageId = () => getChatflowStorageId(props.chatflowid, props.instanceId);
+  // the storage backend is picked once, chat records are read from the cache so they can be used while rendering
+  // eslint-disable-next-line solid/reactivity
+  const chatStorage = resolveChatStorage(props.storage);
+  const chatRecords = createCachedChatStorage(chatStorage, () => setHasStorageError(true));
+  const disclaimerCookieName = () => (props.instanceId ? `${props.instanceId}_chatbotDisclaimer` : 'chatbotDisclaimer');
+
+  const emitEvent: EmitWidgetEvent = (type, detail) => props.emitEvent?.(type, detail);
+
   const scrollToBottom = () => {
     setTimeout(() => {
       chatContainer?.scrollTo(0, chatContainer.scrollHeight);
@@ -353,7 +460,7 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
       }
       return item;
     });
-    setLocalStorageChatflow(props.chatflowid, chatId(), { chatHistory: messages });
+    setLocalStorageChatflow(storageId(), chatId(), { chatHistory: messages }, chatRecords);
   };
 
   // Define the audioRef
@@ -373,101 +480,104 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
 
   let hasSoundPlayed = false;
 
-  const updateLastMessage = (text: string) => {
-    setMessages((prevMessages) => {
-      const allMessages = [...cloneDeep(prevMessages)];
-      if (allMessages[allMessages.length - 1].type === 'userMessage') return allMessages;
-      if (!text) return allMessages;
-      allMessages[allMessages.length - 1].message += text;
-      allMessages[allMessages.length - 1].rating = undefined;
-      allMessages[allMessages.length - 1].dateTime = new Date().toISOString();
-      if (!hasSoundPlayed) {
-        playReceiveSound();
-        hasSoundPlayed = true;
-      }
-      addChatMessage(allMessages);
-      return allMessages;
-    });
+  // events waiting for the next frame, so a burst of tokens is rendered once
+  let pendingAnswerEvents: StreamEvent[] = [];
+  let answerFrame: number | undefined;
+  let chatSaveTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Saves the conversation now if a save is waiting, or always when forced
+   */
+  const flushChatSave = (force?: boolean) => {
+    if (chatSaveTimeout === undefined && !force) return;
+    clearTimeout(chatSaveTimeout);
+    chatSaveTimeout = undefined;
+    addChatMessage(messages());
   };
 
-  const updateErrorMessage = (errorMessage: string) => {
+  // a streaming answer is saved at most once a second, and right away when it ends or the page is left
+  const scheduleChatSave = () => {
+    if (chatSaveTimeout === undefined) chatSaveTimeout = setTimeout(() => flushChatSave(), chatSaveDelay);
+  };
+
+  /**
+   * Applies the pending response events to the answer being built. Only the array and the answer are copied.
+   */
+  const flushAnswer = () => {
+    if (answerFrame !== undefined) cancelAnimationFrame(answerFrame);
+    answerFrame = undefined;
+    if (pendingAnswerEvents.length === 0) return;
+    const events = pendingAnswerEvents;
+    pendingAnswerEvents = [];
     setMessages((prevMessages) => {
-      const allMessages = [...cloneDeep(prevMessages)];
-      allMessages.push({ message: props.errorMessage || errorMessage, type: 'apiMessage' });
-      addChatMessage(allMessages);
-      return allMessages;
+      const answer = prevMessages[prevMessages.length - 1];
+      if (answer?.type !== 'apiMessage') return prevMessages;
+      return [...prevMessages.slice(0, -1), events.reduce(reduceResponse, answer)];
     });
+    scheduleChatSave();
   };
 
-  const updateLastMessageSourceDocuments = (sourceDocuments: any) => {
-    setMessages((data) => {
-      const updated = data.map((item, i) => {
-        if (i === data.length - 1) {
-          return { ...item, sourceDocuments };
-        }
-        return item;
-      });
-      addChatMessage(updated);
-      return [...updated];
-    });
+  const queueAnswerUpdate = (event: StreamEvent) => {
+    pendingAnswerEvents.push(event);
+    if (answerFrame === undefined) answerFrame = requestAnimationFrame(flushAnswer);
   };
 
-  const updateLastMessageUsedTools = (usedTools: any[]) => {
-    setMessages((prevMessages) => {
-      const allMessages = [...cloneDeep(prevMessages)];
-      if (allMessages[allMessages.length - 1].type === 'userMessage') return allMessages;
-      allMessages[allMessages.length - 1].usedTools = usedTools;
-      addChatMessage(allMessages);
-      return allMessages;
-    });
+  // applied straight away, after any tokens still waiting for the next frame
+  const updateAnswer = (event: StreamEvent) => {
+    pendingAnswerEvents.push(event);
+    flushAnswer();
   };
 
-  const updateLastMessageFileAnnotations = (fileAnnotations: any) => {
-    setMessages((prevMessages) => {
-      const allMessages = [...cloneDeep(prevMessages)];
-      if (allMessages[allMessages.length - 1].type === 'userMessage') return allMessages;
-      allMessages[allMessages.length - 1].fileAnnotations = fileAnnotations;
-      addChatMessage(allMessages);
-      return allMessages;
+  onMount(() => {
+    const handleBeforeUnload = () => {
+      flushAnswer();
+      flushChatSave();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    onCleanup(() => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      handleBeforeUnload();
     });
+  });
+
+  const [speechState, setSpeechState] = createSignal<SpeechState>('idle');
+  const [speakingIndex, setSpeakingIndex] = createSignal<number>();
+  const [speechRate, setSpeechRate] = createSignal(props.textToSpeech?.rate ?? 1);
+  // created again when the theme changes, the player being replaced stops its playback
+  const speechPlayer = createMemo(() => {
+    const config = props.textToSpeech;
+    // voice mode reads its answers aloud even when the speaker button is not shown
+    if (!config?.enabled && !config?.autoRead && !props.voiceMode?.enabled) return undefined;
+    const provider = resolveTextToSpeechProvider(config ?? {}, props.onRequest);
+    if (!provider) return undefined;
+    const player = createSpeechPlayer(provider, setSpeechState);
+    player.setRate(untrack(speechRate));
+    onCleanup(() => player.stop());
+    return player;
+  });
+
+  const speakMessage = (index: number) => {
+    const message = messages()[index];
+    if (message?.type !== 'apiMessage') return;
+    setSpeakingIndex(index);
+    return speechPlayer()?.play(toSpeechText(message.message));
   };
 
-  const updateLastMessageAgentReasoning = (agentReasoning: string | IAgentReasoning[]) => {
-    setMessages((data) => {
-      const updated = data.map((item, i) => {
-        if (i === data.length - 1) {
-          return { ...item, agentReasoning: typeof agentReasoning === 'string' ? JSON.parse(agentReasoning) : agentReasoning };
-        }
-        return item;
-      });
-      addChatMessage(updated);
-      return [...updated];
-    });
+  const changeSpeechRate = (rate: number) => {
+    setSpeechRate(rate);
+    speechPlayer()?.setRate(rate);
   };
 
-  const updateLastMessageArtifacts = (artifacts: FileUpload[]) => {
+  const updateErrorMessage = (errorMessage: string) => {
+    emitEvent('chat:error', { chatflowid: props.chatflowid, chatId: chatId(), message: props.errorMessage || errorMessage });
     setMessages((prevMessages) => {
       const allMessages = [...cloneDeep(prevMessages)];
-      if (allMessages[allMessages.length - 1].type === 'userMessage') return allMessages;
-      allMessages[allMessages.length - 1].artifacts = artifacts;
+      allMessages.push({ message: props.errorMessage || errorMessage, type: 'apiMessage' });
       addChatMessage(allMessages);
       return allMessages;
     });
   };
 
-  const updateLastMessageAction = (action: IAction) => {
-    setMessages((data) => {
-      const updated = data.map((item, i) => {
-        if (i === data.length - 1) {
-          return { ...item, action: typeof action === 'string' ? JSON.parse(action) : action };
-        }
-        return item;
-      });
-      addChatMessage(updated);
-      return [...updated];
-    });
-  };
-
   const clearPreviews = () => {
     // Revoke the data uris to avoid memory leaks
     previews().forEach((file) => URL.revokeObjectURL(file.preview));
@@ -475,11 +585,12 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
   };
 
   // Handle errors
-  const handleError = (message = 'Oops! There seems to be an error. Please try again.', preventOverride?: boolean) => {
+  const handleError = (message = translations().errorMessage, preventOverride?: boolean) => {
     let errMessage = message;
     if (!preventOverride && props.errorMessage) {
       errMessage = props.errorMessage;
     }
+    emitEvent('chat:error', { chatflowid: props.chatflowid, chatId: chatId(), message: errMessage });
     setMessages((prevMessages) => {
       const messages: MessageType[] = [...prevMessages, { message: errMessage, type: 'apiMessage' }];
       addChatMessage(messages);
@@ -493,7 +604,7 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
 
   const handleDisclaimerAccept = () => {
     setDisclaimerPopupOpen(false); // Close the disclaimer popup
-    setCookie('chatbotDisclaimer', 'true', 365); // Disclaimer accepted
+    setCookie(disclaimerCookieName(), 'true', 365); // Disclaimer accepted
   };
 
   const promptClick = (prompt: string) => {
@@ -505,133 +616,223 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
     handleSubmit(prompt);
   };
 
-  const updateMetadata = (data: any, input: string) => {
+  // the message id and follow-up prompts are set on the answer by reduceResponse
+  const updateMetadata = (data: StreamMetadata, input: string) => {
     if (data.chatId) {
       setChatId(data.chatId);
     }
 
-    // set message id that is needed for feedback
-    if (data.chatMessageId) {
-      setMessages((prevMessages) => {
-        const allMessages = [...cloneDeep(prevMessages)];
-        if (allMessages[allMessages.length - 1].type === 'apiMessage') {
-          allMessages[allMessages.length - 1].messageId = data.chatMessageId;
-        }
-        addChatMessage(allMessages);
-        return allMessages;
-      });
-    }
-
-    if (input === '' && data.question) {
+    const question = data.question;
+    if (input === '' && question) {
       // the response contains the question even if it was in an audio format
       // so if input is empty but the response contains the question, update the user message to show the question
       setMessages((prevMessages) => {
-        const allMessages = [...cloneDeep(prevMessages)];
-        if (allMessages[allMessages.length - 2].type === 'apiMessage') return allMessages;
-        allMessages[allMessages.length - 2].message = data.question;
-        addChatMessage(allMessages);
-        return allMessages;
+        const index = prevMessages.length - 2;
+        if (prevMessages[index]?.type !== 'userMessage') return prevMessages;
+        return prevMessages.map((message, i) => (i === index ? { ...message, message: question } : message));
       });
     }
 
     if (data.followUpPrompts) {
-      setMessages((prevMessages) => {
-        const allMessages = [...cloneDeep(prevMessages)];
-        if (allMessages[allMessages.length - 1].type === 'userMessage') return allMessages;
-        allMessages[allMessages.length - 1].followUpPrompts = data.followUpPrompts;
-        addChatMessage(allMessages);
-        return allMessages;
-      });
       setFollowUpPrompts(JSON.parse(data.followUpPrompts));
     }
   };
 
-  const fetchResponseFromEventStream = async (chatflowid: string, params: any) => {
-    const chatId = params.chatId;
+  /**
+   * Handles the events of a response, streamed or replayed from a complete prediction
+   */
+  const handleResponseEvent = (event: StreamEvent, input: string, isStream: boolean) => {
+    // only tokens wait for the next frame, anything else is applied in order after them
+    if (event.event !== 'token') flushAnswer();
+    switch (event.event) {
+      case 'start':
+        speechPlayer()?.stop();
+        setMessages((prevMessages) => [...prevMessages, { message: '', type: 'apiMessage' }]);
+        break;
+      case 'token':
+        if (!event.data) break;
+        if (isStream) emitEvent('stream:token', { chatflowid: props.chatflowid, chatId: chatId(), token: event.data });
+        queueAnswerUpdate(event);
+        if (!hasSoundPlayed) {
+          playReceiveSound();
+          hasSoundPlayed = true;
+        }
+        break;
+      case 'metadata':
+        updateAnswer(event);
+        updateMetadata(event.data, input);
+        break;
+      case 'error':
+        updateErrorMessage(event.data);
+        break;
+      case 'abort':
+        abortMessage();
+        closeResponse();
+        break;
+      case 'end':
+        emitReceivedMessage(isStream);
+        closeResponse();
+        // voice mode reads the answer itself once loading is over
+        if (props.textToSpeech?.autoRead && voiceModeState() === 'off') speakMessage(messages().length - 1);
+        break;
+      default:
+        updateAnswer(event);
+    }
+  };
+
+  const fetchResponseFromQuery = async (body: IncomingInput, signal: AbortSignal) => {
+    const result = await sendMessageQuery({
+      chatflowid: props.chatflowid,
+      apiHost: props.apiHost,
+      body,
+      signal,
+      onRequest: props.onRequest,
+    });
+
+    // stopped by the user, the interrupted message is already in place
+    if (signal.aborted) return false;
+
+    if (result.data) {
+      const data = decodePrediction(result.data);
+      // neither text nor json, show the response as it came
+      if (!data.text && !data.json) data.text = JSON.stringify(result.data, null, 2);
+      predictionToEvents(data).forEach((event) => handleResponseEvent(event, body.question, false));
+    }
+    if (result.error) {
+      const error = result.error;
+      console.error(error);
+      if (typeof error === 'object') {
+        handleError(`Error: ${error?.message.replaceAll('Error:', ' ')}`);
+        return false;
+      }
+      if (typeof error === 'string') {
+        handleError(error);
+        return false;
+      }
+      handleError();
+      return false;
+    }
+
+    return true;
+  };
+
+  const fetchResponseFromEventStream = async (chatflowid: string, params: IncomingInput, signal: AbortSignal) => {
     const input = params.question;
-    params.streaming = true;
-    fetchEventSource(`${props.apiHost}/api/v1/prediction/${chatflowid}`, {
-      openWhenHidden: true,
-      method: 'POST',
-      body: JSON.stringify(params),
-      headers: {
-        'Content-Type': 'application/json',
-      },
+    const maxRetries = props.network?.maxRetries ?? 3;
+    let retryCount = 0;
+    // the server ended the stream itself with an end, abort or error event
+    let isStreamClosed = false;
+    // the server rejected the request, retrying would not help
+    let isFatalError = false;
+    // the server answered without streaming, the answer is fetched as a whole instead
+    let isStreamUnsupported = false;
+    // onerror already showed the error, it only rethrows it to stop retrying
+    let isErrorHandled = false;
+
+    const removePartialAnswer = () => {
+      flushAnswer();
+      setMessages((prevMessages) => {
+        if (prevMessages[prevMessages.length - 1]?.type !== 'apiMessage') return prevMessages;
+        return prevMessages.slice(0, -1);
+      });
+    };
+
+    sendMessageStreamQuery({
+      chatflowid,
+      apiHost: props.apiHost,
+      body: params,
+      signal,
+      onRequest: props.onRequest,
       async onopen(response) {
-        if (response.ok && response.headers.get('content-type')?.startsWith(EventStreamContentType)) {
+        const contentType = response.headers.get('content-type');
+        if (response.ok && contentType?.startsWith(EventStreamContentType)) {
           return; // everything's good
-        } else if (response.status === 429) {
-          const errMessage = (await response.text()) ?? 'Too many requests. Please try again later.';
-          handleError(errMessage, true);
-          throw new Error(errMessage);
-        } else if (response.status === 403) {
-          const errMessage = (await response.text()) ?? 'Unauthorized';
-          handleError(errMessage);
-          throw new Error(errMessage);
-        } else if (response.status === 401) {
-          const errMessage = (await response.text()) ?? 'Unauthenticated';
-          handleError(errMessage);
-          throw new Error(errMessage);
-        } else {
-          throw new Error();
         }
+        if (response.ok) {
+          isStreamUnsupported = true;
+          throw new Error(`Expected an event stream, received ${contentType}`);
+        }
+        // only network failures are retried, an error response would come back the same
+        isFatalError = true;
+        const fallbackMessages: Record<number, string> = {
+          429: translations().tooManyRequests,
+          403: translations().unauthorized,
+          401: translations().unauthenticated,
+        };
+        const errMessage = (await getResponseErrorMessage(response)) || fallbackMessages[response.status] || translations().errorMessage;
+        handleError(errMessage, response.status === 429);
+        throw new Error(errMessage);
       },
       async onmessage(ev) {
-        const payload = JSON.parse(ev.data);
-        switch (payload.event) {
-          case 'start':
-            setMessages((prevMessages) => [...prevMessages, { message: '', type: 'apiMessage' }]);
-            break;
-          case 'token':
-            updateLastMessage(payload.data);
-            break;
-          case 'sourceDocuments':
-            updateLastMessageSourceDocuments(payload.data);
-            break;
-          case 'usedTools':
-            updateLastMessageUsedTools(payload.data);
-            break;
-          case 'fileAnnotations':
-            updateLastMessageFileAnnotations(payload.data);
-            break;
-          case 'agentReasoning':
-            updateLastMessageAgentReasoning(payload.data);
-            break;
-          case 'action':
-            updateLastMessageAction(payload.data);
-            break;
-          case 'artifacts':
-            updateLastMessageArtifacts(payload.data);
-            break;
-          case 'metadata':
-            updateMetadata(payload.data, input);
-            break;
-          case 'error':
-            updateErrorMessage(payload.data);
-            break;
-          case 'abort':
-            abortMessage();
-            closeResponse();
-            break;
-          case 'end':
-            setLocalStorageChatflow(chatflowid, chatId);
-            closeResponse();
-            break;
+        const payload = parseStreamEvent(ev.data);
+        if (!payload) {
+          console.warn('Ignoring unknown stream event:', ev.data);
+          return;
         }
+        if (payload.event === 'start') {
+          setIsReconnecting(false);
+          // a retried request regenerates the answer from the start, replacing the partial one
+          if (retryCount > 0) removePartialAnswer();
+        }
+        if (payload.event === 'error' || payload.event === 'abort' || payload.event === 'end') isStreamClosed = true;
+        handleResponseEvent(payload, input, true);
       },
       async onclose() {
+        // the connection dropped mid-answer, let onerror decide whether to retry
+        if (!isStreamClosed) throw new Error('Stream closed before the response ended');
         closeResponse();
       },
       onerror(err) {
         console.error('EventSource Error: ', err);
-        closeResponse();
+        if (!isFatalError && !isStreamUnsupported && retryCount < maxRetries) {
+          retryCount += 1;
+          // keep the partial answer on screen and flag it until the retried stream starts
+          setMessages((prevMessages) => {
+            if (prevMessages[prevMessages.length - 1]?.type === 'apiMessage') return prevMessages;
+            return [...prevMessages, { message: '', type: 'apiMessage' }];
+          });
+          setIsReconnecting(true);
+          // returning a delay makes fetchEventSource send the request again
+          return getRetryDelay(retryCount, props.network?.retryDelay ?? 1000, props.network?.maxRetryDelay ?? 10000);
+        }
+        if (!isFatalError && (props.network?.fallbackToNonStreaming ?? true)) {
+          removePartialAnswer();
+          setIsReconnecting(false);
+          fetchResponseFromQuery(params, signal);
+        } else {
+          closeResponse();
+        }
+        isErrorHandled = true;
         throw err;
       },
+    }).catch((error) => {
+      // e.g. the onRequest hook rejected before the request was sent
+      if (isErrorHandled || signal.aborted) return;
+      console.error('Unable to stream the response:', error);
+      handleError();
+      closeResponse();
+    });
+  };
+
+  const emitReceivedMessage = (isStream?: boolean) => {
+    const lastMessage = messages()[messages().length - 1];
+    if (lastMessage?.type !== 'apiMessage') return;
+    const messageId = lastMessage.messageId ?? lastMessage.id;
+    if (isStream) emitEvent('stream:end', { chatflowid: props.chatflowid, chatId: chatId(), messageId });
+    emitEvent('message:received', {
+      chatflowid: props.chatflowid,
+      chatId: chatId(),
+      messageId,
+      message: lastMessage.message,
+      dateTime: lastMessage.dateTime,
     });
   };
 
   const closeResponse = () => {
+    flushAnswer();
+    flushChatSave(true);
     setLoading(false);
+    setIsReconnecting(false);
     setUserInput('');
     setUploadedFiles([]);
     hasSoundPlayed = false;
@@ -640,19 +841,61 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
     }, 100);
   };
 
-  const abortMessage = () => {
+  const abortMessage = (interrupted?: boolean) => {
+    flushAnswer();
     setIsMessageStopping(false);
     setMessages((prevMessages) => {
       const allMessages = [...cloneDeep(prevMessages)];
-      if (allMessages[allMessages.length - 1].type === 'userMessage') return allMessages;
+      if (allMessages[allMessages.length - 1].type === 'userMessage') {
+        if (!interrupted) return allMessages;
+        // stopped before the first token, keep a marker so the question does not look unanswered
+        allMessages.push({ message: '', type: 'apiMessage', interrupted: true, dateTime: new Date().toISOString() });
+        addChatMessage(allMessages);
+        return allMessages;
+      }
       const lastAgentReasoning = allMessages[allMessages.length - 1].agentReasoning;
       if (lastAgentReasoning && lastAgentReasoning.length > 0) {
         allMessages[allMessages.length - 1].agentReasoning = lastAgentReasoning.filter((reasoning) => !reasoning.nextAgent);
       }
+      if (interrupted) {
+        allMessages[allMessages.length - 1].interrupted = true;
+        addChatMessage(allMessages);
+      }
       return allMessages;
     });
   };
 
+  let abortController: AbortController | undefined;
+  // the latest question as sent, upload data included, found in the messages by its id
+  let lastQuestion: { id: string; uploads: IUploads; action?: IAction | null } | undefined;
+  // whether the question of the in-flight request is in the messages yet, it is added once its uploads are sent
+  let isQuestionAdded = false;
+  // versions of an answer being regenerated, until the new one is complete
+  let pendingVersions: { versions: MessageType[]; versionIndex: number } | undefined;
+
+  /**
+   * Cancel the in-flight request, keep the partial answer and ask Flowise to stop generating
+   */
+  const stopGeneration = async () => {
+    if (!loading() || isMessageStopping()) return;
+    setIsMessageStopping(true);
+    abortController?.abort();
+    if (!isQuestionAdded) {
+      // nothing was asked yet, the last message is the previous answer and stays as it is
+      setIsMessageStopping(false);
+      closeResponse();
+      return;
+    }
+    abortMessage(true);
+    closeResponse();
+    await abortMessageQuery({
+      chatflowid: props.chatflowid,
+      apiHost: props.apiHost,
+      chatId: chatId(),
+      onRequest: props.onRequest,
+    });
+  };
+
   const handleFileUploads = async (uploads: IUploads) => {
     if (!uploadedFiles().length) return uploads;
 
@@ -670,6 +913,7 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
           chatflowid: props.chatflowid,
           apiHost: props.apiHost,
           formData: formData,
+          onRequest: props.onRequest,
         });
 
         if (!response.data) {
@@ -707,6 +951,7 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
           chatflowid: props.chatflowid,
           apiHost: props.apiHost,
           formData: formData,
+          onRequest: props.onRequest,
         });
 
         if (!response.data) {
@@ -730,42 +975,128 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
     return uploads;
   };
 
-  // Handle form submission
-  const handleSubmit = async (value: string, action?: IAction | undefined | null) => {
-    if (value.trim() === '') {
-      const containsFile = previews().filter((item) => !item.mime.startsWith('image') && item.type !== 'audio').length > 0;
-      if (!previews().length || (previews().length && containsFile)) {
-        return;
-      }
-    }
+  const updateOutbox = (pendingMessages: OutboxMessage[]) => {
+    setOutbox(pendingMessages);
+    setSavedOutbox(storageId(), pendingMessages, chatRecords);
+  };
 
-    setLoading(true);
+  const queueOutboxMessage = (value: string, action?: IAction | null) => {
+    const pendingMessage: OutboxMessage = {
+      id: uuidv4(),
+      message: value,
+      action,
+      // object urls do not survive a reload, the data url renders the same
+      previews: previews().map((item) => ({ ...item, preview: item.preview.startsWith('blob:') ? (item.data as string) : item.preview })),
+      uploadedFiles: uploadedFiles().map(({ file, type }) => ({ name: file.name, type })),
+      dateTime: new Date().toISOString(),
+    };
+    updateOutbox([...outbox(), pendingMessage]);
+    clearPreviews();
+    setUploadedFiles([]);
+    setUserInput('');
     scrollToBottom();
+  };
 
-    let uploads: IUploads = previews().map((item) => {
-      return {
-        data: item.data,
-        type: item.type,
-        name: item.name,
-        mime: item.mime,
-      };
+  // a queued question that was sent but is still queued, e.g. its upload failed, waits for the next time the browser is back online
+  let sentOutboxId: string | undefined;
+
+  /**
+   * Send the oldest queued question as if the user had just submitted it, it leaves the outbox once it is added to the chat
+   */
+  const sendOutboxMessage = async () => {
+    const [pendingMessage] = outbox();
+    if (pendingMessage.id === sentOutboxId) return;
+    sentOutboxId = pendingMessage.id;
+    setPreviews(pendingMessage.previews);
+    setUploadedFiles(
+      pendingMessage.uploadedFiles.flatMap(({ name, type }) => {
+        const preview = pendingMessage.previews.find((item) => item.name === name);
+        return preview ? [{ file: dataURLToFile(preview.data as string, name, preview.mime), type }] : [];
+      }),
+    );
+    await handleSubmit(pendingMessage.message, pendingMessage.action, { outboxId: pendingMessage.id });
+    // not added, the files are only shown on the queued question
+    if (outbox().some(({ id }) => id === pendingMessage.id)) {
+      clearPreviews();
+      setUploadedFiles([]);
+    }
+  };
+
+  // flush the outbox in order, one question per response
+  createEffect(() => {
+    if (!isOnline() || loading() || outbox().length === 0) return;
+    untrack(sendOutboxMessage);
+  });
+
+  onMount(() => {
+    const handleOnline = () => {
+      sentOutboxId = undefined;
+      setIsOnline(true);
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    onCleanup(() => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
     });
+  });
 
+  const parseRecordField = (value?: string) => {
+    if (!value) return undefined;
     try {
-      uploads = await handleFileUploads(uploads);
-    } catch (error) {
-      handleError('Unable to upload documents', true);
-      return;
+      return JSON.parse(value);
+    } catch (e) {
+      return undefined;
     }
+  };
 
-    clearPreviews();
+  // saved fields are JSON encoded, which the payload decoding accepts for lists
+  const toChatMessage = (record: ChatMessageRecord): MessageType => ({
+    messageId: record.id,
+    message: record.content,
+    type: record.role,
+    dateTime: record.createdDate,
+    sourceDocuments: decodePayload('sourceDocuments', record.sourceDocuments),
+    usedTools: decodePayload('usedTools', record.usedTools),
+    fileAnnotations: decodePayload('fileAnnotations', record.fileAnnotations),
+    agentReasoning: decodePayload('agentReasoning', record.agentReasoning),
+    fileUploads: parseRecordField(record.fileUploads),
+    artifacts: decodePayload('artifacts', record.artifacts),
+    action: decodePayload('action', parseRecordField(record.action)),
+    followUpPrompts: record.followUpPrompts,
+  });
 
+  /**
+   * Fetch a conversation this device has no copy of, e.g. after switching device or clearing storage
+   */
+  const restoreServerHistory = async (restoreChatId: string) => {
+    setIsRestoringHistory(true);
+    const { data } = await getChatMessagesQuery({
+      chatflowid: props.chatflowid,
+      apiHost: props.apiHost,
+      chatId: restoreChatId,
+      // issued by the host for its chatId, the proxy server only returns a conversation with it
+      signature: restoreChatId === props.chatId ? props.chatIdSignature : undefined,
+      onRequest: props.onRequest,
+    });
+    setIsRestoringHistory(false);
+    if (!data?.length || restoreChatId !== chatId()) return;
+
+    const restoredMessages = data.map(toChatMessage);
     setMessages((prevMessages) => {
-      const messages: MessageType[] = [...prevMessages, { message: value, type: 'userMessage', fileUploads: uploads }];
-      addChatMessage(messages);
-      return messages;
+      const knownMessageIds = new Set(prevMessages.map((message) => message.messageId).filter(Boolean));
+      // after the welcome message, before anything sent while the history was loading
+      const [welcomeMessage, ...rest] = prevMessages;
+      const allMessages = [welcomeMessage, ...restoredMessages.filter((message) => !knownMessageIds.has(message.messageId)), ...rest];
+      addChatMessage(allMessages);
+      return allMessages;
     });
+    scrollToBottom();
+  };
 
+  // Handle form submission
+  const sendQuestion = async (value: string, uploads: IUploads, action: IAction | undefined | null, signal: AbortSignal) => {
     const body: IncomingInput = {
       question: value,
       chatId: chatId(),
@@ -780,70 +1111,98 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
     if (action) body.action = action;
 
     if (isChatFlowAvailableToStream()) {
-      fetchResponseFromEventStream(props.chatflowid, body);
-    } else {
-      const result = await sendMessageQuery({
-        chatflowid: props.chatflowid,
-        apiHost: props.apiHost,
-        body,
-        onRequest: props.onRequest,
-      });
+      fetchResponseFromEventStream(props.chatflowid, body, signal);
+      return true;
+    }
+    return fetchResponseFromQuery(body, signal);
+  };
 
-      if (result.data) {
-        const data = result.data;
-
-        let text = '';
-        if (data.text) text = data.text;
-        else if (data.json) text = JSON.stringify(data.json, null, 2);
-        else text = JSON.stringify(data, null, 2);
-
-        if (data?.chatId) setChatId(data.chatId);
-
-        playReceiveSound();
-
-        setMessages((prevMessages) => {
-          const allMessages = [...cloneDeep(prevMessages)];
-          const newMessage = {
-            message: text,
-            id: data?.chatMessageId,
-            sourceDocuments: data?.sourceDocuments,
-            usedTools: data?.usedTools,
-            fileAnnotations: data?.fileAnnotations,
-            agentReasoning: data?.agentReasoning,
-            action: data?.action,
-            artifacts: data?.artifacts,
-            type: 'apiMessage' as messageType,
-            feedback: null,
-            dateTime: new Date().toISOString(),
-          };
-          allMessages.push(newMessage);
-          addChatMessage(allMessages);
-          return allMessages;
-        });
+  /**
+   * Sends a question with the previews as its uploads. An edited question is given with the index of the question it replaces
+   * and its own uploads, the messages from that index are only dropped once the new question is added.
+   * A queued question is given with its outboxId, it is removed from the outbox once it is added.
+   */
+  const handleSubmit = async (
+    value: string,
+    action?: IAction | undefined | null,
+    options: {
+      edit?: { index: number; uploads: IUploads } & Pick<MessageType, 'branches' | 'branchIndex'>;
+      outboxId?: string;
+    } = {},
+  ) => {
+    const { edit, outboxId } = options;
+    if (value.trim() === '') {
+      const containsFile = previews().filter((item) => !item.mime.startsWith('image') && item.type !== 'audio').length > 0;
+      if (!previews().length || (previews().length && containsFile)) {
+        return;
+      }
+    }
 
-        updateMetadata(data, value);
+    if (!isOnline()) {
+      // a queued question stays where it is
+      if (!outboxId) queueOutboxMessage(value, action);
+      return;
+    }
 
-        setLoading(false);
-        setUserInput('');
-        setUploadedFiles([]);
-        scrollToBottom();
-      }
-      if (result.error) {
-        const error = result.error;
-        console.error(error);
-        if (typeof error === 'object') {
-          handleError(`Error: ${error?.message.replaceAll('Error:', ' ')}`);
-          return;
-        }
-        if (typeof error === 'string') {
-          handleError(error);
-          return;
-        }
-        handleError();
+    setLoading(true);
+    isQuestionAdded = false;
+    scrollToBottom();
+
+    abortController = new AbortController();
+    const { signal } = abortController;
+
+    let uploads: IUploads =
+      edit?.uploads ??
+      previews().map((item) => {
+        return {
+          data: item.data,
+          type: item.type,
+          name: item.name,
+          mime: item.mime,
+        };
+      });
+
+    if (!edit) {
+      try {
+        uploads = await handleFileUploads(uploads);
+      } catch (error) {
+        handleError(translations().uploadFailed, true);
         return;
       }
     }
 
+    if (signal.aborted) return;
+
+    if (!edit) clearPreviews();
+
+    const questionId = uuidv4();
+    const question: MessageType = { id: questionId, message: value, type: 'userMessage', fileUploads: uploads };
+    if (edit) {
+      question.branches = edit.branches;
+      question.branchIndex = edit.branchIndex;
+    }
+    // kept on the question so the answer can be regenerated with it
+    if (action) question.action = action;
+    lastQuestion = { id: questionId, uploads, action };
+
+    setMessages((prevMessages) => {
+      const messages: MessageType[] = [...(edit ? prevMessages.slice(0, edit.index) : prevMessages), question];
+      addChatMessage(messages);
+      return messages;
+    });
+    isQuestionAdded = true;
+    if (outboxId) updateOutbox(outbox().filter((pendingMessage) => pendingMessage.id !== outboxId));
+
+    emitEvent('message:sent', {
+      chatflowid: props.chatflowid,
+      chatId: chatId(),
+      message: value,
+      uploads: uploads.map(({ name, mime, type }) => ({ name, mime, type })),
+    });
+
+    const isSuccess = await sendQuestion(value, uploads, action, signal);
+    if (!isSuccess) return;
+
     // Update last question to avoid saving base64 data to localStorage
     if (uploads && uploads.length > 0) {
       setMessages((data) => {
@@ -866,6 +1225,133 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
     }
   };
 
+  /**
+   * Only upload names are saved with the chat, so uploads are resent from memory for the latest question.
+   * Otherwise images and audio are referenced from the Flowise storage of the chat.
+   */
+  const getQuestionUploads = (question: MessageType): IUploads => {
+    // the text is not enough, the same question may have been asked again without its files
+    if (question.id && lastQuestion?.id === question.id) return lastQuestion.uploads;
+    return (question.fileUploads ?? []).map((upload) => ({
+      data: '',
+      type: upload.type === 'file' || upload.type === 'audio' ? 'stored-file' : upload.type ?? '',
+      name: upload.name ?? '',
+      mime: upload.mime ?? '',
+    }));
+  };
+
+  /**
+   * Resends an edited question. What followed the original question is kept as a branch,
+   * Flowise memory for the chatId is not rewound though, so the flow may still remember the replaced turns.
+   */
+  const editMessage = (index: number, value: string) => {
+    if (loading() || !isOnline() || value.trim() === '') return;
+    const allMessages = messages();
+    const [question, ...answers] = allMessages.slice(index);
+    const { branches = [], branchIndex = 0, ...currentQuestion } = question;
+    const updatedBranches = [...branches];
+    updatedBranches[branchIndex] = [currentQuestion, ...answers];
+    // the new branch is filled in from the live messages when switching away from it
+    handleSubmit(value, question.action, {
+      edit: {
+        index,
+        uploads: getQuestionUploads(question),
+        branches: [...updatedBranches, []],
+        branchIndex: updatedBranches.length,
+      },
+    });
+  };
+
+  const switchBranch = (index: number, targetIndex: number) => {
+    const allMessages = messages();
+    const [question, ...answers] = allMessages.slice(index);
+    const { branches = [], branchIndex = 0, ...currentQuestion } = question;
+    if (loading() || targetIndex === branchIndex || !branches[targetIndex]?.length) return;
+    const updatedBranches = [...branches];
+    updatedBranches[branchIndex] = [currentQuestion, ...answers];
+    const [targetQuestion, ...targetAnswers] = updatedBranches[targetIndex];
+    const updated = [...allMessages.slice(0, index), { ...targetQuestion, branches: updatedBranches, branchIndex: targetIndex }, ...targetAnswers];
+    setFollowUpPrompts([]);
+    setMessages(updated);
+    addChatMessage(updated);
+  };
+
+  const regenerateAnswer = () => {
+    const allMessages = messages();
+    const answer = allMessages[allMessages.length - 1];
+    const question = allMessages[allMessages.length - 2];
+    if (loading() || !isOnline() || answer?.type !== 'apiMessage' || question?.type !== 'userMessage') return;
+
+    const { versions = [], versionIndex = 0, ...currentAnswer } = answer;
+    const updatedVersions = [...versions];
+    updatedVersions[versionIndex] = currentAnswer;
+    pendingVersions = { versions: updatedVersions, versionIndex };
+
+    setMessages(allMessages.slice(0, -1));
+    setFollowUpPrompts([]);
+    setLoading(true);
+    isQuestionAdded = true;
+    scrollToBottom();
+
+    const uploads = getQuestionUploads(question);
+    emitEvent('message:sent', {
+      chatflowid: props.chatflowid,
+      chatId: chatId(),
+      message: question.message,
+      uploads: uploads.map(({ name, mime, type }) => ({ name, mime, type })),
+      regenerated: true,
+    });
+
+    abortController = new AbortController();
+    sendQuestion(question.message, uploads, question.action, abortController.signal);
+  };
+
+  // once the new answer is complete it becomes the latest version
+  createEffect(
+    on(loading, (isLoading) => {
+      if (isLoading || !pendingVersions) return;
+      const { versions, versionIndex } = pendingVersions;
+      pendingVersions = undefined;
+      setMessages((prevMessages) => {
+        const allMessages = [...cloneDeep(prevMessages)];
+        const answer = allMessages[allMessages.length - 1];
+        // e.g. stopped before the first token, only the interrupted marker was added
+        const isEmptyAnswer =
+          answer?.type === 'apiMessage' && !answer.message && !answer.artifacts?.length && !answer.agentReasoning?.length && !answer.action;
+        if (answer?.type === 'apiMessage' && !isEmptyAnswer) {
+          allMessages[allMessages.length - 1] = { ...answer, versions: [...versions, answer], versionIndex: versions.length };
+        } else {
+          // no answer came back, put the previous one back
+          if (isEmptyAnswer) allMessages.pop();
+          allMessages.push({ ...versions[versionIndex], versions, versionIndex });
+        }
+        addChatMessage(allMessages);
+        return allMessages;
+      });
+    }),
+  );
+
+  const switchVersion = (index: number, targetIndex: number) => {
+    const allMessages = messages();
+    const { versions = [], versionIndex = 0, ...currentAnswer } = allMessages[index];
+    if (loading() || targetIndex === versionIndex || !versions[targetIndex]) return;
+    const updatedVersions = [...versions];
+    updatedVersions[versionIndex] = currentAnswer;
+    const updated = [...allMessages];
+    updated[index] = { ...updatedVersions[targetIndex], versions: updatedVersions, versionIndex: targetIndex };
+    setMessages(updated);
+    addChatMessage(updated);
+  };
+
+  // ratings are saved on the displayed version so they follow it when paging between versions
+  const updateMessageRating = (messageId: string, rating: FeedbackRatingType) => {
+    setMessages((prevMessages) => {
+      const allMessages = prevMessages.map((message) => (message.messageId === messageId ? { ...message, rating } : message));
+      addChatMessage(allMessages);
+      return allMessages;
+    });
+  };
+
   const handleActionClick = async (label: string, action: IAction | undefined | null) => {
     setUserInput(label);
     setMessages((data) => {
@@ -881,22 +1367,62 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
     handleSubmit(label, action);
   };
 
-  const clearChat = () => {
+  const loadStoredMessages = (storedMessages?: MessageType[]): MessageType[] => {
+    const loadedMessages: MessageType[] =
+      storedMessages && storedMessages.length > 0
+        ? storedMessages.map((message: MessageType) => {
+            const chatHistory: MessageType = {
+              messageId: message?.messageId,
+              message: message.message,
+              type: message.type,
+              rating: message.rating,
+              dateTime: message.dateTime,
+            };
+            if (message.sourceDocuments) chatHistory.sourceDocuments = message.sourceDocuments;
+            if (message.fileAnnotations) chatHistory.fileAnnotations = message.fileAnnotations;
+            if (message.fileUploads) chatHistory.fileUploads = message.fileUploads;
+            if (message.agentReasoning) chatHistory.agentReasoning = message.agentReasoning;
+            if (message.action) chatHistory.action = message.action;
+            if (message.artifacts) chatHistory.artifacts = message.artifacts;
+            if (message.followUpPrompts) chatHistory.followUpPrompts = message.followUpPrompts;
+            if (message.interrupted) chatHistory.interrupted = message.interrupted;
+            if (message.branches) {
+              chatHistory.branches = message.branches;
+              chatHistory.branchIndex = message.branchIndex;
+            }
+            if (message.versions) {
+              chatHistory.versions = message.versions;
+              chatHistory.versionIndex = message.versionIndex;
+            }
+            return chatHistory;
+          })
+        : [{ message: props.welcomeMessage ?? translations().welcomeMessage, type: 'apiMessage' }];
+
+    return loadedMessages.filter((message) => message.type !== 'leadCaptureMessage');
+  };
+
+  /**
+   * Start over with a new chatId, the lead is kept
+   */
+  const resetChat = () => {
     try {
-      removeLocalStorageChatHistory(props.chatflowid);
+      speechPlayer()?.stop();
+      removeLocalStorageChatHistory(storageId(), chatRecords);
       setChatId(
         (props.chatflowConfig?.vars as any)?.customerId ? `${(props.chatflowConfig?.vars as any).customerId.toString()}+${uuidv4()}` : uuidv4(),
       );
       setUploadedFiles([]);
+      updateOutbox([]);
       const messages: MessageType[] = [
         {
-          message: props.welcomeMessage ?? defaultWelcomeMessage,
+          message: props.welcomeMessage ?? translations().welcomeMessage,
           type: 'apiMessage',
         },
       ];
-      if (leadsConfig()?.status && !getLocalStorageChatflow(props.chatflowid)?.lead) {
+      if (leadsConfig()?.status && !getLocalStorageChatflow(storageId(), chatRecords)?.lead) {
         messages.push({ message: '', type: 'leadCaptureMessage' });
       }
+      setFollowUpPrompts([]);
       setMessages(messages);
     } catch (error: any) {
       const errorData = error.response.data || `${error.response.status}: ${error.response.statusText}`;
@@ -904,6 +1430,173 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
     }
   };
 
+  const clearChat = () => {
+    const clearedChatId = chatId();
+    resetChat();
+    updateConversations(conversations().filter((conversation) => conversation.chatId !== clearedChatId));
+  };
+
+  const updateConversations = (savedConversations: SavedConversation[]) => {
+    setConversations(savedConversations);
+    setSavedConversations(storageId(), savedConversations, chatRecords);
+  };
+
+  /**
+   * Put the active conversation, as persisted, into the saved list
+   */
+  const saveActiveConversation = (title?: string) => {
+    const record = getLocalStorageChatflow(storageId(), chatRecords);
+    const chatHistory: MessageType[] = record.chatHistory ?? [];
+    const savedConversation = conversations().find((conversation) => conversation.chatId === chatId());
+    // an untouched conversation is not worth keeping, unless it was named
+    if (!title && !savedConversation && !chatHistory.some((message) => message.type === 'userMessage')) return;
+    const conversation: SavedConversation = {
+      chatId: chatId(),
+      title: title ?? savedConversation?.title,
+      updatedAt: chatHistory[chatHistory.length - 1]?.dateTime ?? savedConversation?.updatedAt ?? new Date().toISOString(),
+      chatHistory,
+      lead: record.lead,
+    };
+    updateConversations([conversation, ...conversations().filter((item) => item.chatId !== chatId())]);
+  };
+
+  const startNewConversation = () => {
+    if (loading()) return;
+    saveActiveConversation();
+    resetChat();
+    if (!isConversationListDocked()) setIsConversationListOpen(false);
+  };
+
+  const switchConversation = (targetChatId: string) => {
+    const target = conversations().find((conversation) => conversation.chatId === targetChatId);
+    if (loading() || !target || targetChatId === chatId()) return;
+    saveActiveConversation();
+    // each conversation keeps the lead captured in it
+    setLocalStorageChatflow(storageId(), target.chatId, { chatHistory: target.chatHistory, lead: target.lead }, chatRecords);
+    setChatId(target.chatId);
+    setIsLeadSaved(!!target.lead);
+    setLeadEmail(target.lead?.email ?? '');
+    setFollowUpPrompts([]);
+    const messages = loadStoredMessages(target.chatHistory);
+    if (leadsConfig()?.status && !target.lead) {
+      messages.push({ message: '', type: 'leadCaptureMessage' });
+    }
+    setMessages(messages);
+    if (!isConversationListDocked()) setIsConversationListOpen(false);
+    scrollToBottom();
+  };
+
+  const renameConversation = (targetChatId: string, title: string) => {
+    if (targetChatId === chatId()) {
+      saveActiveConversation(title);
+      return;
+    }
+    updateConversations(conversations().map((conversation) => (conversation.chatId === targetChatId ? { ...conversation, title } : conversation)));
+  };
+
+  const deleteConversation = (targetChatId: string) => {
+    if (loading() && targetChatId === chatId()) return;
+    if (targetChatId === chatId()) {
+      clearChat();
+      return;
+    }
+    updateConversations(conversations().filter((conversation) => conversation.chatId !== targetChatId));
+  };
+
+  const exportConversation = (format: TranscriptFormat) => {
+    const activeConversation = conversations().find((conversation) => conversation.chatId === chatId());
+    const transcript = createTranscript({
+      chatflowid: props.chatflowid,
+      chatId: chatId(),
+      title: getConversationTitle(activeConversation?.title, messages(), translations().newConversation),
+      messages: messages(),
+    });
+    exportTranscript(transcript, format, translations());
+  };
+
+  /**
+   * Replace the active conversation with an exported transcript and carry on from it, throws when the transcript is invalid
+   */
+  const importConversation = (input: string | Transcript) => {
+    if (loading()) throw new Error('Cannot import a conversation while a response is in progress');
+    const transcript = parseTranscript(input);
+    // the chatId is carried on, it must not be continued with another chatflow
+    if (transcript.chatflowid !== props.chatflowid) throw new Error(translations().importOtherChatflow);
+    if (props.showConversations) saveActiveConversation();
+
+    const importedMessages: MessageType[] = transcript.messages.map((message) => ({
+      messageId: message.messageId,
+      message: message.message,
+      type: message.type,
+      dateTime: message.dateTime,
+      rating: message.rating,
+      fileUploads: message.fileUploads,
+      sourceDocuments: decodePayload('sourceDocuments', message.sourceDocuments),
+      usedTools: decodePayload('usedTools', message.usedTools),
+      agentReasoning: decodePayload('agentReasoning', message.agentReasoning),
+      followUpPrompts: message.followUpPrompts,
+      fileAnnotations: decodePayload('fileAnnotations', message.fileAnnotations),
+      artifacts: decodePayload('artifacts', message.artifacts),
+      action: decodePayload('action', message.action),
+    }));
+    setChatId(transcript.chatId);
+    setFollowUpPrompts([]);
+    const messages = loadStoredMessages(importedMessages);
+    setMessages(messages);
+    addChatMessage(messages);
+    if (transcript.title && props.showConversations) saveActiveConversation(transcript.title);
+    scrollToBottom();
+  };
+
+  const importConversationFile = async (file: File) => {
+    try {
+      importConversation(await file.text());
+    } catch (error) {
+      console.error(error);
+      handleError(`${translations().importFailed} ${error instanceof Error ? error.message : ''}`, true);
+    }
+  };
+
+  const conversationListItems = createMemo((): ConversationListItem[] => {
+    const activeConversation = conversations().find((conversation) => conversation.chatId === chatId());
+    const lastMessage = messages()[messages().length - 1];
+    const otherConversations = conversations()
+      .filter((conversation) => conversation.chatId !== chatId())
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map((conversation) => ({
+        chatId: conversation.chatId,
+        title: getConversationTitle(conversation.title, conversation.chatHistory, translations().newConversation),
+        updatedAt: conversation.updatedAt,
+      }));
+    return [
+      {
+        chatId: chatId(),
+        title: getConversationTitle(activeConversation?.title, messages(), translations().newConversation),
+        updatedAt: lastMessage?.dateTime ?? activeConversation?.updatedAt,
+      },
+      ...otherConversations,
+    ];
+  });
+
+  /**
+   * Send a message on the user's behalf, e.g. from a host page button
+   */
+  const sendMessage = (text: string, uploads?: FileUpload[]) => {
+    if (getInputDisabled()) return;
+    if (uploads && uploads.length > 0) {
+      setPreviews((prevPreviews) => [...prevPreviews, ...uploads.map((upload) => ({ ...upload, preview: '' }))]);
+    }
+    handleSubmit(text);
+  };
+
+  onMount(() => {
+    props.registerControls?.({ sendMessage, clearChat, importConversation });
+  });
+
+  onCleanup(() => {
+    props.registerControls?.(undefined);
+  });
+
   onMount(() => {
     if (props.clearChatOnReload) {
       clearChat();
@@ -949,7 +1642,7 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
   // eslint-disable-next-line solid/reactivity
   createEffect(async () => {
     if (props.disclaimer) {
-      if (getCookie('chatbotDisclaimer') == 'true') {
+      if (getCookie(disclaimerCookieName()) == 'true') {
         setDisclaimerPopupOpen(false);
       } else {
         setDisclaimerPopupOpen(true);
@@ -958,39 +1651,33 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
       setDisclaimerPopupOpen(false);
     }
 
-    const chatMessage = getLocalStorageChatflow(props.chatflowid);
-    if (chatMessage && Object.keys(chatMessage).length) {
+    const chatStorageId = storageId();
+    await Promise.all([
+      loadChatflowStorage(chatStorageId, chatRecords),
+      chatRecords.load(getConversationsStorageKey(chatStorageId)),
+      chatRecords.load(getOutboxStorageKey(chatStorageId)),
+    ]);
+    const chatMessage = getLocalStorageChatflow(chatStorageId, chatRecords);
+    setConversations(getSavedConversations(chatStorageId, chatRecords));
+    // a chatId given by the host resumes that conversation rather than the one stored on this device
+    const isOtherConversation = !!props.chatId && chatMessage?.chatId !== props.chatId;
+    if (props.chatId) setChatId(props.chatId);
+    // the lead and the queued questions belong to the stored conversation too
+    if (chatMessage && Object.keys(chatMessage).length && !isOtherConversation) {
       if (chatMessage.chatId) setChatId(chatMessage.chatId);
       const savedLead = chatMessage.lead;
       if (savedLead) {
         setIsLeadSaved(!!savedLead);
         setLeadEmail(savedLead.email);
       }
-      const loadedMessages: MessageType[] =
-        chatMessage?.chatHistory?.length > 0
-          ? chatMessage.chatHistory?.map((message: MessageType) => {
-              const chatHistory: MessageType = {
-                messageId: message?.messageId,
-                message: message.message,
-                type: message.type,
-                rating: message.rating,
-                dateTime: message.dateTime,
-              };
-              if (message.sourceDocuments) chatHistory.sourceDocuments = message.sourceDocuments;
-              if (message.fileAnnotations) chatHistory.fileAnnotations = message.fileAnnotations;
-              if (message.fileUploads) chatHistory.fileUploads = message.fileUploads;
-              if (message.agentReasoning) chatHistory.agentReasoning = message.agentReasoning;
-              if (message.action) chatHistory.action = message.action;
-              if (message.artifacts) chatHistory.artifacts = message.artifacts;
-              if (message.followUpPrompts) chatHistory.followUpPrompts = message.followUpPrompts;
-              return chatHistory;
-            })
-          : [{ message: props.welcomeMessage ?? defaultWelcomeMessage, type: 'apiMessage' }];
-
-      const filteredMessages = loadedMessages.filter((message) => message.type !== 'leadCaptureMessage');
-      setMessages([...filteredMessages]);
+      setMessages(loadStoredMessages(chatMessage.chatHistory));
     }
 
+    const hasStoredHistory = !isOtherConversation && chatMessage?.chatHistory?.some((message: MessageType) => message.type === 'userMessage');
+    // a chatId generated for this visit has nothing to restore
+    const hasKnownChatId = !!props.chatId || !!chatMessage?.chatId;
+    if (props.restoreHistory && hasKnownChatId && !hasStoredHistory) restoreServerHistory(chatId());
+
     // Determine if particular chatflow is available for streaming
     const { data } = await isStreamAvailableQuery({
       chatflowid: props.chatflowid,
@@ -1002,6 +1689,9 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
       setIsChatFlowAvailableToStream(data?.isStreaming ?? false);
     }
 
+    // questions queued offline on a previous visit, restored once the response mode is known
+    if (!isOtherConversation) setOutbox(getSavedOutbox(chatStorageId, chatRecords));
+
     // Get the chatbotConfig
     const result = await getChatbotConfig({
       chatflowid: props.chatflowid,
@@ -1027,7 +1717,7 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
       }
       if (chatbotConfig.leads) {
         setLeadsConfig(chatbotConfig.leads);
-        if (chatbotConfig.leads?.status && !getLocalStorageChatflow(props.chatflowid)?.lead) {
+        if (chatbotConfig.leads?.status && !getLocalStorageChatflow(storageId(), chatRecords)?.lead) {
           setMessages((prevMessages) => [...prevMessages, { message: '', type: 'leadCaptureMessage' }]);
         }
       }
@@ -1046,7 +1736,7 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
       setLoading(false);
       setMessages([
         {
-          message: props.welcomeMessage ?? defaultWelcomeMessage,
+          message: props.welcomeMessage ?? translations().welcomeMessage,
           type: 'apiMessage',
         },
       ]);
@@ -1289,20 +1979,137 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
 
   const onMicrophoneClicked = () => {
     setIsRecording(true);
-    startAudioRecording(setIsRecording, setRecordingNotSupported, setElapsedTime);
+    setIsRecordingPaused(false);
+    setRecordedMilliseconds(0);
+    startAudioRecording(
+      (value) => {
+        setIsRecording(value);
+        setRecordingStream(audioRecorder.streamBeingCaptured ?? undefined);
+      },
+      setRecordingNotSupported,
+      (value, milliseconds) => {
+        setElapsedTime(value);
+        setRecordedMilliseconds(milliseconds);
+      },
+      props.textInput?.maxRecordingDuration ?? defaultMaximumRecordingTimeInSeconds,
+      onRecordingStopped,
+    );
   };
 
   const onRecordingCancelled = () => {
     if (!recordingNotSupported) cancelAudioRecording();
     setIsRecording(false);
     setRecordingNotSupported(false);
+    setRecordingStream(undefined);
   };
 
+  // the recording is added to the previews, where it can be played back before it is sent
   const onRecordingStopped = async () => {
     setIsLoadingRecording(true);
     stopAudioRecording(addRecordingToPreviews);
   };
 
+  const toggleRecordingPause = () => {
+    if (isRecordingPaused()) resumeAudioRecording();
+    else pauseAudioRecording();
+    setIsRecordingPaused(!isRecordingPaused());
+  };
+
+  const isRecordingTooShort = () => recordedMilliseconds() < (props.textInput?.minRecordingDuration ?? 0) * 1000;
+
+  const [voiceModeState, setVoiceModeState] = createSignal<VoiceModeState>('off');
+  const [voiceLevel, setVoiceLevel] = createSignal(0);
+  let stopVoiceActivity: (() => void) | undefined;
+
+  const isVoiceModeAvailable = () => !!props.voiceMode?.enabled && !!uploadsConfig()?.isSpeechToTextEnabled;
+
+  /**
+   * Records until the user stops talking, the recording is then sent like one from the microphone button.
+   * Nothing is sent when the user does not speak, the microphone is armed again instead.
+   */
+  const listenForVoice = () => {
+    setVoiceModeState('listening');
+    audioRecorder
+      .start()
+      .then(() => {
+        const stream = audioRecorder.streamBeingCaptured;
+        if (!stream || voiceModeState() !== 'listening') return audioRecorder.cancel();
+        stopVoiceActivity = watchVoiceActivity(stream, {
+          threshold: props.voiceMode?.speechThreshold ?? 0.02,
+          silenceDuration: props.voiceMode?.silenceDuration ?? 1500,
+          noSpeechTimeout: props.voiceMode?.noSpeechTimeout ?? 15000,
+          onLevel: setVoiceLevel,
+          onSpeechEnd: () => {
+            stopVoiceActivity = undefined;
+            setVoiceLevel(0);
+            setVoiceModeState('thinking');
+            audioRecorder
+              .stop()
+              .then((blob) => addRecordingToPreviews(blob as Blob))
+              .catch((error) => {
+                console.error('Unable to stop voice recording:', error);
+                exitVoiceMode();
+              });
+          },
+          onNoSpeech: () => {
+            stopVoiceActivity = undefined;
+            audioRecorder.cancel();
+            listenForVoice();
+          },
+        });
+      })
+      .catch((error) => {
+        console.error('Unable to start voice mode:', error);
+        exitVoiceMode();
+      });
+  };
+
+  // when what was said is not sent, e.g. it is queued while offline, nothing is answered so the microphone is armed again
+  const sendVoiceRecording = () => {
+    handleSubmit('')
+      .then(() => {
+        if (voiceModeState() === 'thinking' && !loading()) listenForVoice();
+      })
+      .catch((error) => {
+        console.error('Unable to send voice recording:', error);
+        exitVoiceMode();
+      });
+  };
+
+  const exitVoiceMode = () => {
+    const wasListening = voiceModeState() === 'listening';
+    setVoiceModeState('off');
+    setVoiceLevel(0);
+    stopVoiceActivity?.();
+    stopVoiceActivity = undefined;
+    if (wasListening) audioRecorder.cancel();
+    speechPlayer()?.stop();
+  };
+
+  // the answer to what was said is read aloud, then the microphone is armed for the next question
+  createEffect(
+    on(
+      loading,
+      (isLoading) => {
+        if (isLoading || voiceModeState() !== 'thinking') return;
+        setVoiceModeState('speaking');
+        const playback = speakMessage(messages().length - 1) ?? Promise.resolve();
+        playback.then(() => {
+          if (voiceModeState() === 'speaking') listenForVoice();
+        });
+      },
+      { defer: true },
+    ),
+  );
+
+  createEffect(
+    on(isVoiceModeAvailable, (isAvailable) => {
+      if (isAvailable && props.voiceMode?.autoStart && untrack(voiceModeState) === 'off') listenForVoice();
+    }),
+  );
+
+  onCleanup(exitVoiceMode);
+
   const getInputDisabled = (): boolean => {
     const messagesArray = messages();
     const disabled =
@@ -1319,12 +2126,14 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
   createEffect(
     // listen for changes in previews
     on(previews, (uploads) => {
-      // wait for audio recording to load and then send
+      // wait for audio recording to load, voice mode sends it right away
       const containsAudio = uploads.filter((item) => item.type === 'audio').length > 0;
       if (uploads.length >= 1 && containsAudio) {
         setIsRecording(false);
         setRecordingNotSupported(false);
-        promptClick('');
+        setIsLoadingRecording(false);
+        setRecordingStream(undefined);
+        if (voiceModeState() === 'thinking') sendVoiceRecording();
       }
 
       return () => {
@@ -1349,7 +2158,7 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
     } else if (item.mime.startsWith('audio/')) {
       return (
         <div
-          class={`inline-flex basis-auto flex-grow-0 flex-shrink-0 justify-between items-center rounded-xl h-12 p-1 mr-1 bg-gray-500`}
+          class={`inline-flex basis-auto flex-grow-0 flex-shrink-0 justify-between items-center rounded-xl h-12 p-1 me-1 bg-gray-500`}
           style={{
             width: `${chatContainer ? (botProps.isFullPage ? chatContainer?.offsetWidth / 4 : chatContainer?.offsetWidth / 2) : '200'}px`,
           }}
@@ -1361,7 +2170,14 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
         </div>
       );
     } else {
-      return <FilePreview disabled={getInputDisabled()} item={item} onDelete={() => handleDeletePreview(item)} />;
+      return (
+        <FilePreview
+          disabled={getInputDisabled()}
+          item={item}
+          deleteTitle={translations().removeAttachment}
+          onDelete={() => handleDeletePreview(item)}
+        />
+      );
     }
   };
 
@@ -1369,7 +2185,12 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
     <>
       <div
         ref={botContainer}
+        dir={direction()}
         class={'relative flex w-full h-full text-base overflow-hidden bg-cover bg-center flex-col items-center chatbot-container ' + props.class}
+        style={{
+          'padding-inline-start':
+            props.showConversations && isConversationListDocked() && isConversationListOpen() ? `${conversationListWidth}px` : undefined,
+        }}
         onDragEnter={handleDrag}
       >
         {isDragActive() && (
@@ -1382,18 +2203,30 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
             onDrop={handleDrop}
           />
         )}
+        <Show when={voiceModeState() !== 'off'}>
+          <VoiceModeOverlay
+            translations={translations()}
+            state={voiceModeState() as Exclude<VoiceModeState, 'off'>}
+            level={voiceLevel()}
+            color={props.textInput?.sendButtonColor}
+            onSkip={() => speechPlayer()?.stop()}
+            onExit={exitVoiceMode}
+          />
+        </Show>
         {isDragActive() && (uploadsConfig()?.isImageUploadAllowed || isFileUploadAllowed()) && (
           <div
             class="absolute top-0 left-0 bottom-0 right-0 flex flex-col items-center justify-center bg-black/60 backdrop-blur-sm text-white z-40 gap-2 border-2 border-dashed"
             style={{ 'border-color': props.bubbleBackgroundColor }}
           >
-            <h2 class="text-xl font-semibold">Drop here to upload</h2>
+            <h2 class="text-xl font-semibold">{translations().dropToUpload}</h2>
             <For each={[...(uploadsConfig()?.imgUploadSizeAndTypes || []), ...(uploadsConfig()?.fileUploadSizeAndTypes || [])]}>
               {(allowed) => {
                 return (
                   <>
                     <span>{allowed.fileTypes?.join(', ')}</span>
-                    {allowed.maxUploadSize && <span>Max Allowed Size: {allowed.maxUploadSize} MB</span>}
+                    {allowed.maxUploadSize && (
+                      <span>{formatTranslation(translations().maxUploadSize, { maxUploadSize: allowed.maxUploadSize })}</span>
+                    )}
                   </>
                 );
               }}
@@ -1411,6 +2244,16 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
               'border-top-right-radius': props.isFullPage ? '0px' : '6px',
             }}
           >
+            <Show when={props.showConversations}>
+              <button
+                type="button"
+                class="ms-3 p-1 bg-transparent border-0 hover:brightness-90"
+                title={translations().conversations}
+                onClick={() => setIsConversationListOpen(!isConversationListOpen())}
+              >
+                <MessagesIcon color={props.titleTextColor || props.bubbleTextColor || defaultBackgroundColor} />
+              </button>
+            </Show>
             <Show when={props.titleAvatarSrc}>
               <>
                 <div style={{ width: '15px' }} />
@@ -1421,29 +2264,56 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
               <span class="px-3 whitespace-pre-wrap font-semibold max-w-full">{props.title}</span>
             </Show>
             <div style={{ flex: 1 }} />
+            <TranscriptMenu
+              translations={translations()}
+              color={props.titleTextColor || props.bubbleTextColor || defaultBackgroundColor}
+              isExportDisabled={messages().length === 1}
+              isImportDisabled={loading()}
+              onExport={exportConversation}
+              onImport={importConversationFile}
+            />
             <DeleteButton
               sendButtonColor={props.bubbleTextColor}
               type="button"
               isDisabled={messages().length === 1}
-              class="my-2 ml-2"
+              class="my-2 ms-2"
+              title={translations().clearChat}
               on:click={clearChat}
             >
               <span style={{ 'font-family': 'Poppins, sans-serif' }}>Clear</span>
             </DeleteButton>
           </div>
         ) : null}
+        <Show when={props.showConversations && isConversationListOpen()}>
+          <ConversationList
+            translations={translations()}
+            conversations={conversationListItems()}
+            activeChatId={chatId()}
+            isDisabled={loading() || outbox().length > 0}
+            isDocked={isConversationListDocked()}
+            top={props.showTitle ? 50 : 0}
+            textColor={props.botMessage?.textColor}
+            accentColor={props.bubbleBackgroundColor}
+            onSelect={switchConversation}
+            onNew={startNewConversation}
+            onRename={renameConversation}
+            onDelete={deleteConversation}
+            onClose={() => setIsConversationListOpen(false)}
+          />
+        </Show>
         <div class="flex flex-col w-full h-full justify-start z-0">
           <div
             ref={chatContainer}
             class="overflow-y-scroll flex flex-col flex-grow min-w-full w-full px-3 pt-[70px] relative scrollable-container chatbot-chat-view scroll-smooth"
           >
-            <For each={[...messages()]}>
+            <Index each={messages()}>
               {(message, index) => {
                 return (
                   <>
-                    {message.type === 'userMessage' && (
+                    {message().type === 'userMessage' && (
                       <GuestBubble
-                        message={message}
+                        translations={translations()}
+                        message={message()}
                         apiHost={props.apiHost}
                         chatflowid={props.chatflowid}
                         chatId={chatId()}
@@ -1453,15 +2323,21 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
                         avatarSrc={props.userMessage?.avatarSrc}
                         fontSize={props.fontSize}
                         renderHTML={props.renderHTML}
+                        isEditDisabled={loading() || !isOnline()}
+                        onEdit={(value) => editMessage(index, value)}
+                        onBranchChange={(branchIndex) => switchBranch(index, branchIndex)}
                       />
                     )}
-                    {message.type === 'apiMessage' && (
+                    {message().type === 'apiMessage' && (
                       <BotBubble
-                        message={message}
-                        fileAnnotations={message.fileAnnotations}
+                        translations={translations()}
+                        message={message()}
+                        fileAnnotations={message().fileAnnotations}
                         chatflowid={props.chatflowid}
+                        storageId={storageId()}
                         chatId={chatId()}
                         apiHost={props.apiHost}
+                        onRequest={props.onRequest}
                         backgroundColor={props.botMessage?.backgroundColor}
                         textColor={props.botMessage?.textColor}
                         feedbackColor={props.feedback?.color}
@@ -1469,7 +2345,9 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
                         avatarSrc={props.botMessage?.avatarSrc}
                         chatFeedbackStatus={chatFeedbackStatus()}
                         fontSize={props.fontSize}
-                        isLoading={loading() && index() === messages().length - 1}
+                        isLoading={loading() && index === messages().length - 1}
+                        isReconnecting={isReconnecting() && index === messages().length - 1}
+                        chatStorage={chatRecords}
                         showAgentMessages={props.showAgentMessages}
                         handleActionClick={(label, action) => handleActionClick(label, action)}
                         sourceDocsTitle={props.sourceDocsTitle}
@@ -1479,32 +2357,84 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
                         }}
                         dateTimeToggle={props.dateTimeToggle}
                         renderHTML={props.renderHTML}
+                        onFeedbackSubmitted={(feedback) => {
+                          updateMessageRating(feedback.messageId, feedback.rating);
+                          emitEvent('feedback:submitted', { chatflowid: props.chatflowid, chatId: chatId(), ...feedback });
+                        }}
+                        isRegenerateDisabled={loading() || !isOnline()}
+                        onRegenerate={
+                          index === messages().length - 1 && index > 0 && messages()[index - 1].type === 'userMessage' ? regenerateAnswer : undefined
+                        }
+                        onVersionChange={(versionIndex) => switchVersion(index, versionIndex)}
+                        speech={
+                          speechPlayer() && {
+                            state: speakingIndex() === index ? speechState() : 'idle',
+                            rate: speechRate(),
+                            showControls: !!props.textToSpeech?.enabled,
+                            onPlay: () => speakMessage(index),
+                            onPause: () => speechPlayer()?.pause(),
+                            onResume: () => speechPlayer()?.resume(),
+                            onStop: () => speechPlayer()?.stop(),
+                            onRateChange: changeSpeechRate,
+                          }
+                        }
                       />
                     )}
-                    {message.type === 'leadCaptureMessage' && leadsConfig()?.status && !getLocalStorageChatflow(props.chatflowid)?.lead && (
+                    {message().type === 'leadCaptureMessage' && leadsConfig()?.status && !getLocalStorageChatflow(storageId(), chatRecords)?.lead && (
                       <LeadCaptureBubble
-                        message={message}
+                        translations={translations()}
+                        message={message()}
                         chatflowid={props.chatflowid}
+                        storageId={storageId()}
                         chatId={chatId()}
                         apiHost={props.apiHost}
+                        onRequest={props.onRequest}
                         backgroundColor={props.botMessage?.backgroundColor}
                         textColor={props.botMessage?.textColor}
                         fontSize={props.fontSize}
                         showAvatar={props.botMessage?.showAvatar}
                         avatarSrc={props.botMessage?.avatarSrc}
                         leadsConfig={leadsConfig()}
+                        chatStorage={chatRecords}
                         sendButtonColor={props.textInput?.sendButtonColor}
                         isLeadSaved={isLeadSaved()}
                         setIsLeadSaved={setIsLeadSaved}
                         setLeadEmail={setLeadEmail}
+                        onLeadCaptured={(lead) => emitEvent('lead:captured', { chatflowid: props.chatflowid, chatId: chatId(), ...lead })}
                       />
                     )}
-                    {message.type === 'userMessage' && loading() && index() === messages().length - 1 && <LoadingBubble />}
-                    {message.type === 'apiMessage' && message.message === '' && loading() && index() === messages().length - 1 && <LoadingBubble />}
+                    {message().type === 'userMessage' && loading() && index === messages().length - 1 && <LoadingBubble />}
+                    {message().type === 'apiMessage' && message().message === '' && loading() && index === messages().length - 1 && <LoadingBubble />}
                   </>
                 );
               }}
+            </Index>
+            <Show when={isRestoringHistory()}>
+              <HistorySkeleton />
+            </Show>
+            <For each={outbox()}>
+              {(pendingMessage) => (
+                <GuestBubble
+                  translations={translations()}
+                  message={{ message: pendingMessage.message, type: 'userMessage', fileUploads: pendingMessage.previews }}
+                  apiHost={props.apiHost}
+                  chatflowid={props.chatflowid}
+                  chatId={chatId()}
+                  backgroundColor={props.userMessage?.backgroundColor}
+                  textColor={props.userMessage?.textColor}
+                  showAvatar={props.userMessage?.showAvatar}
+                  avatarSrc={props.userMessage?.avatarSrc}
+                  fontSize={props.fontSize}
+                  renderHTML={props.renderHTML}
+                  isPending
+                />
+              )}
             </For>
+            <Show when={hasStorageError()}>
+              <div class="w-full px-2 py-2 text-xs italic text-center" style={{ color: props.botMessage?.textColor }}>
+                {translations().storageFull}
+              </div>
+            </Show>
           </div>
           <Show when={messages().length === 1}>
             <Show when={starterPrompts().length > 0}>
@@ -1526,7 +2456,7 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
               <>
                 <div class="flex items-center gap-1 px-5">
                   <SparklesIcon class="w-4 h-4" />
-                  <span class="text-sm text-gray-700">Try these prompts</span>
+                  <span class="text-sm text-gray-700">{translations().followUpPrompts}</span>
                 </div>
                 <div class="w-full flex flex-row flex-wrap px-5 py-[10px] gap-2">
                   <For each={[...followUpPrompts()]}>
@@ -1553,13 +2483,13 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
                 {recordingNotSupported() ? (
                   <div class="w-full flex items-center justify-between p-4 border border-[#eeeeee]">
                     <div class="w-full flex items-center justify-between gap-3">
-                      <span class="text-base">To record audio, use modern browsers like Chrome or Firefox that support audio recording.</span>
+                      <span class="text-base">{translations().recordingNotSupported}</span>
                       <button
                         class="py-2 px-4 justify-center flex items-center bg-red-500 text-white rounded-md"
                         type="button"
                         onClick={() => onRecordingCancelled()}
                       >
-                        Okay
+                        {translations().recordingNotSupportedConfirm}
                       </button>
                     </div>
                   </div>
@@ -1573,32 +2503,53 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
                       color: props.textInput?.textColor ?? defaultTextColor,
                     }}
                   >
-                    <div class="flex items-center gap-3 px-4 py-2">
-                      <span>
+                    <div class="flex flex-1 items-center gap-3 px-4 py-2 min-w-0">
+                      <span class={isRecordingPaused() ? 'opacity-50' : 'animate-pulse'}>
                         <CircleDotIcon color="red" />
                       </span>
                       <span>{elapsedTime() || '00:00'}</span>
-                      {isLoadingRecording() && <span class="ml-1.5">Sending...</span>}
+                      {isLoadingRecording() && <span class="ms-1.5">{translations().recordingProcessing}</span>}
+                      <Show when={recordingStream()} keyed>
+                        {(stream) => <RecordingWaveform stream={stream} isPaused={isRecordingPaused()} color={props.textInput?.sendButtonColor} />}
+                      </Show>
                     </div>
                     <div class="flex items-center">
-                      <CancelButton buttonColor={props.textInput?.sendButtonColor} type="button" class="m-0" on:click={onRecordingCancelled}>
-                        <span style={{ 'font-family': 'Poppins, sans-serif' }}>Send</span>
-                      </CancelButton>
+                      <button
+                        type="button"
+                        class="p-2 bg-transparent border-0 hover:brightness-90 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={isRecordingPaused() ? translations().resumeRecording : translations().pauseRecording}
+                        disabled={isLoadingRecording()}
+                        onClick={toggleRecordingPause}
+                      >
+                        {isRecordingPaused() ? (
+                          <RecordIcon color={props.textInput?.sendButtonColor} />
+                        ) : (
+                          <PauseIcon color={props.textInput?.sendButtonColor} />
+                        )}
+                      </button>
+                      <CancelButton
+                        buttonColor={props.textInput?.sendButtonColor}
+                        type="button"
+                        title={translations().cancelRecording}
+                        class="m-0"
+                        on:click={onRecordingCancelled}
+                      />
                       <SendButton
                         sendButtonColor={props.textInput?.sendButtonColor}
                         type="button"
-                        isDisabled={loading()}
+                        isDisabled={loading() || isLoadingRecording() || isRecordingTooShort()}
+                        title={isRecordingTooShort() ? translations().recordingTooShort : translations().stopRecording}
                         class="m-0"
                         on:click={onRecordingStopped}
-                      >
-                        <span style={{ 'font-family': 'Poppins, sans-serif' }}>Send</span>
-                      </SendButton>
+                      />
                     </div>
                   </div>
                 )}
               </>
             ) : (
               <TextInput
+                translations={translations()}
+                direction={direction()}
                 backgroundColor={props.textInput?.backgroundColor}
                 textColor={props.textInput?.textColor}
                 placeholder={props.textInput?.placeholder}
@@ -1615,16 +2566,22 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
                 isFullFileUpload={fullFileUpload()}
                 setPreviews={setPreviews}
                 onMicrophoneClicked={onMicrophoneClicked}
+                onVoiceModeClicked={isVoiceModeAvailable() ? listenForVoice : undefined}
                 handleFileChange={handleFileChange}
                 sendMessageSound={props.textInput?.sendMessageSound}
                 sendSoundLocation={props.textInput?.sendSoundLocation}
                 enableInputHistory={true}
                 maxHistorySize={10}
+                inputHistoryKey={props.instanceId ? `${props.instanceId}_chatInputHistory` : undefined}
+                storage={chatStorage}
+                isLoading={loading()}
+                onStop={stopGeneration}
               />
             )}
           </div>
           <Badge
             footer={props.footer}
+            poweredByText={translations().poweredBy}
             badgeBackgroundColor={props.badgeBackgroundColor}
             poweredByTextColor={props.poweredByTextColor}
             botContainer={botContainer}
@@ -1637,16 +2594,16 @@ export const Bot = (botProps: BotProps & { class?: string }) => {
         <DisclaimerPopup
           isOpen={disclaimerPopupOpen()}
           onAccept={handleDisclaimerAccept}
-          title={props.disclaimer?.title}
-          message={props.disclaimer?.message}
+          title={props.disclaimer?.title ?? translations().disclaimerTitle}
+          message={props.disclaimer?.message ?? translations().disclaimerMessage}
           textColor={props.disclaimer?.textColor}
           buttonColor={props.disclaimer?.buttonColor}
-          buttonText={props.disclaimer?.buttonText}
+          buttonText={props.disclaimer?.buttonText ?? translations().disclaimerAccept}
           buttonTextColor={props.disclaimer?.buttonTextColor}
           blurredBackgroundColor={props.disclaimer?.blurredBackgroundColor}
           backgroundColor={props.disclaimer?.backgroundColor}
           denyButtonBgColor={props.disclaimer?.denyButtonBgColor}
-          denyButtonText={props.disclaimer?.denyButtonText}
+          denyButtonText={props.disclaimer?.denyButtonText ?? translations().disclaimerDeny}
           onDeny={props.closeBot}
           isFullPage={props.isFullPage}
         />
@@ -0,0 +1,138 @@
+import { createSignal, For, Show } from 'solid-js';
+import { EditIcon, PlusIcon, TrashIcon, XIcon } from './icons';
+import type { Translations } from '@/i18n';
+
+export type ConversationListItem = {
+  chatId: string;
+  title: string;
+  updatedAt?: string;
+};
+
+type ConversationListProps = {
+  conversations: ConversationListItem[];
+  activeChatId: string;
+  isDisabled?: boolean;
+  isDocked?: boolean;
+  top?: number;
+  backgroundColor?: string;
+  textColor?: string;
+  accentColor?: string;
+  onSelect: (chatId: string) => void;
+  onNew: () => void;
+  onRename: (chatId: string, title: string) => void;
+  onDelete: (chatId: string) => void;
+  onClose: () => void;
+  translations: Translations;
+};
+
+const defaultBackgroundColor = '#ffffff';
+const defaultTextColor = '#303235';
+const defaultAccentColor = '#3B81F6';
+
+export const conversationListWidth = 280;
+
+const formatUpdatedAt = (updatedAt?: string) => {
+  if (!updatedAt) return '';
+  const date = new Date(updatedAt);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+};
+
+export const ConversationList = (props: ConversationListProps) => {
+  const [editingChatId, setEditingChatId] = createSignal<string>();
+
+  const commitRename = (chatId: string, title: string) => {
+    setEditingChatId(undefined);
+    if (title.trim()) props.onRename(chatId, title.trim());
+  };
+
+  return (
+    <div
+      class="absolute start-0 bottom-0 z-30 flex flex-col shadow-lg animate-fade-in"
+      style={{
+        top: `${props.top ?? 0}px`,
+        width: `${conversationListWidth}px`,
+        'max-width': '100%',
+        'background-color': props.backgroundColor ?? defaultBackgroundColor,
+        color: props.textColor ?? defaultTextColor,
+        'border-inline-end': '1px solid #eeeeee',
+      }}
+      data-testid="conversation-list"
+    >
+      <div class="flex items-center justify-between gap-2 p-3" style={{ 'border-bottom': '1px solid #eeeeee' }}>
+        <button
+          type="button"
+          class="flex flex-1 items-center gap-2 px-3 py-2 rounded-md font-semibold disabled:opacity-50 disabled:cursor-not-allowed hover:brightness-90"
+          style={{ border: `1px solid ${props.accentColor ?? defaultAccentColor}`, color: props.accentColor ?? defaultAccentColor }}
+          disabled={props.isDisabled}
+          onClick={() => props.onNew()}
+        >
+          <PlusIcon color={props.accentColor ?? defaultAccentColor} width="18" height="18" />
+          {props.translations.newConversation}
+        </button>
+        <Show when={!props.isDocked}>
+          <button type="button" class="p-1 bg-transparent border-0" title={props.translations.close} onClick={() => props.onClose()}>
+            <XIcon color={props.textColor ?? defaultTextColor} />
+          </button>
+        </Show>
+      </div>
+      <div class="flex flex-col flex-1 overflow-y-auto p-2 gap-1">
+        <For each={props.conversations}>
+          {(conversation) => (
+            <div
+              class="group flex items-center gap-2 px-3 py-2 rounded-md cursor-pointer hover:bg-black/5"
+              classList={{ 'bg-black/5': conversation.chatId === props.activeChatId, 'opacity-50 cursor-not-allowed': props.isDisabled }}
+              onClick={() => !props.isDisabled && editingChatId() !== conversation.chatId && props.onSelect(conversation.chatId)}
+            >
+              <Show
+                when={editingChatId() === conversation.chatId}
+                fallback={
+                  <div class="flex flex-col flex-1 min-w-0">
+                    <span class="truncate text-sm font-medium">{conversation.title}</span>
+                    <span class="text-xs opacity-60">{formatUpdatedAt(conversation.updatedAt)}</span>
+                  </div>
+                }
+              >
+                <input
+                  ref={(el) => setTimeout(() => el.focus())}
+                  class="flex-1 min-w-0 px-2 py-1 text-sm rounded border bg-transparent"
+                  style={{ border: '1px solid #eeeeee', color: 'inherit' }}
+                  value={conversation.title}
+                  onClick={(e) => e.stopPropagation()}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename(conversation.chatId, e.currentTarget.value);
+                    if (e.key === 'Escape') setEditingChatId(undefined);
+                  }}
+                  onBlur={(e) => editingChatId() === conversation.chatId && commitRename(conversation.chatId, e.currentTarget.value)}
+                />
+              </Show>
+              <button
+                type="button"
+                class="p-1 bg-transparent border-0 opacity-60 hover:opacity-100"
+                title={props.translations.renameConversation}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setEditingChatId(conversation.chatId);
+                }}
+              >
+                <EditIcon color={props.textColor ?? defaultTextColor} width="16" height="16" />
+              </button>
+              <button
+                type="button"
+                class="p-1 bg-transparent border-0 opacity-60 hover:opacity-100 disabled:cursor-not-allowed"
+                title={props.translations.deleteConversation}
+                disabled={props.isDisabled}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  props.onDelete(conversation.chatId);
+                }}
+              >
+                <TrashIcon color={props.textColor ?? defaultTextColor} width="16" height="16" />
+              </button>
+            </div>
+          )}
+        </For>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import { createSignal } from 'solid-js';
+import type { Translations } from '@/i18n';
 
 type FeedbackContentDialogProps = {
   isOpen: boolean;
@@ -6,6 +7,7 @@ type FeedbackContentDialogProps = {
   onSubmit: (text: string) => void;
   backgroundColor?: string;
   textColor?: string;
+  translations: Translations;
 };
 
 const defaultBackgroundColor = '#ffffff';
@@ -45,9 +47,9 @@ const FeedbackContentDialog = (props: FeedbackContentDialogProps) => {
                 border: '1px solid #eeeeee',
               }}
             >
-              <span class="whitespace-pre-wrap font-semibold max-w-full">Provide additional feedback</span>
+              <span class="whitespace-pre-wrap font-semibold max-w-full">{props.translations.feedbackTitle}</span>
               <button
-                class="p-1 ml-auto bg-transparent border-0 text-black float-right text-xl leading-none font-semibold outline-none focus:outline-none"
+                class="p-1 ms-auto bg-transparent border-0 text-black float-right text-xl leading-none font-semibold outline-none focus:outline-none"
                 type="button"
                 onClick={onClose}
               >
@@ -80,17 +82,17 @@ const FeedbackContentDialog = (props: FeedbackContentDialogProps) => {
                   border: '1px solid #eeeeee',
                   color: props.textColor ?? defaultTextColor,
                 }}
-                placeholder="What do you think of the response?"
+                placeholder={props.translations.feedbackPlaceholder}
                 value={inputValue()}
               />
             </div>
             <div class="flex items-center justify-end p-4 border-t border-solid border-blueGray-200 rounded-b">
               <button
-                class="bg-emerald-500 text-white active:bg-emerald-600 font-bold text-sm px-4 py-2 rounded shadow hover:shadow-lg outline-none focus:outline-none mr-1 mb-1 ease-linear transition-all duration-150"
+                class="bg-emerald-500 text-white active:bg-emerald-600 font-bold text-sm px-4 py-2 rounded shadow hover:shadow-lg outline-none focus:outline-none me-1 mb-1 ease-linear transition-all duration-150"
                 type="button"
                 onClick={submit}
               >
-                Submit Feedback
+                {props.translations.feedbackSubmit}
               </button>
             </div>
           </div>
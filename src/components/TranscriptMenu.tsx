@@ -0,0 +1,90 @@
+import { createSignal, For, onCleanup, onMount, Show } from 'solid-js';
+import { DownloadIcon } from './icons';
+import type { TranscriptFormat } from '@/utils/transcript';
+import type { Translations } from '@/i18n';
+
+type TranscriptMenuProps = {
+  color?: string;
+  isExportDisabled?: boolean;
+  isImportDisabled?: boolean;
+  onExport: (format: TranscriptFormat) => void;
+  onImport: (file: File) => void;
+  translations: Translations;
+};
+
+const formats: { format: TranscriptFormat; label: keyof Translations }[] = [
+  { format: 'markdown', label: 'exportMarkdown' },
+  { format: 'json', label: 'exportJson' },
+  { format: 'text', label: 'exportText' },
+  { format: 'html', label: 'exportPrint' },
+];
+
+export const TranscriptMenu = (props: TranscriptMenuProps) => {
+  const [isOpen, setIsOpen] = createSignal(false);
+  let menuEl: HTMLDivElement | undefined;
+  let fileInputEl: HTMLInputElement | undefined;
+
+  // close when clicking anywhere else, composedPath sees through the shadow root
+  const handleOutsideClick = (event: MouseEvent) => {
+    if (menuEl && !event.composedPath().includes(menuEl)) setIsOpen(false);
+  };
+
+  onMount(() => document.addEventListener('click', handleOutsideClick));
+  onCleanup(() => document.removeEventListener('click', handleOutsideClick));
+
+  return (
+    <div ref={menuEl} class="relative">
+      <button
+        type="button"
+        class="p-1 bg-transparent border-0 hover:brightness-90 disabled:opacity-50 disabled:cursor-not-allowed"
+        title={props.translations.transcriptMenu}
+        onClick={() => setIsOpen(!isOpen())}
+      >
+        <DownloadIcon color={props.color} />
+      </button>
+      <Show when={isOpen()}>
+        <div class="absolute end-0 mt-1 z-50 flex flex-col min-w-[180px] py-1 rounded-md shadow-lg bg-white text-sm" style={{ color: '#303235' }}>
+          <For each={formats}>
+            {({ format, label }) => (
+              <button
+                type="button"
+                class="px-4 py-2 text-start bg-transparent border-0 hover:bg-black/5 disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={props.isExportDisabled}
+                onClick={() => {
+                  setIsOpen(false);
+                  props.onExport(format);
+                }}
+              >
+                {props.translations[label]}
+              </button>
+            )}
+          </For>
+          <div class="my-1" style={{ 'border-top': '1px solid #eeeeee' }} />
+          <button
+            type="button"
+            class="px-4 py-2 text-start bg-transparent border-0 hover:bg-black/5 disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={props.isImportDisabled}
+            onClick={() => {
+              setIsOpen(false);
+              fileInputEl?.click();
+            }}
+          >
+            {props.translations.importTranscript}
+          </button>
+        </div>
+      </Show>
+      <input
+        ref={fileInputEl}
+        type="file"
+        accept="application/json,.json"
+        class="hidden"
+        onChange={(e) => {
+          const file = e.currentTarget.files?.[0];
+          // reset so picking the same file again still fires a change
+          e.currentTarget.value = '';
+          if (file) props.onImport(file);
+        }}
+      />
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 export const TypingBubble = () => (
   <div class="flex items-center">
-    <div class="w-2 h-2 mr-1 rounded-full bubble1" />
-    <div class="w-2 h-2 mr-1 rounded-full bubble2" />
+    <div class="w-2 h-2 me-1 rounded-full bubble1" />
+    <div class="w-2 h-2 me-1 rounded-full bubble2" />
     <div class="w-2 h-2 rounded-full bubble3" />
   </div>
 );
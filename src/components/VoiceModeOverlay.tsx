@@ -0,0 +1,80 @@
+import { Match, Show, Switch } from 'solid-js';
+import { HeadphonesIcon, RecordIcon, XIcon } from './icons';
+import type { Translations } from '@/i18n';
+
+export type VoiceModeState = 'off' | 'listening' | 'thinking' | 'speaking';
+
+type VoiceModeOverlayProps = {
+  state: Exclude<VoiceModeState, 'off'>;
+  // microphone level from 0 to 1, while listening
+  level: number;
+  color?: string;
+  backgroundColor?: string;
+  textColor?: string;
+  onSkip: () => void;
+  onExit: () => void;
+  translations: Translations;
+};
+
+const defaultColor = '#3B81F6';
+
+const stateLabels = {
+  listening: 'voiceListening',
+  thinking: 'voiceThinking',
+  speaking: 'voiceSpeaking',
+} as const;
+
+export const VoiceModeOverlay = (props: VoiceModeOverlayProps) => {
+  // speech is quiet next to the full scale of the microphone, so small levels already grow the circle
+  const scale = () => (props.state === 'listening' ? 1 + Math.min(props.level * 8, 0.5) : 1);
+
+  return (
+    <div
+      class="absolute top-0 left-0 bottom-0 right-0 w-full h-full z-50 flex flex-col items-center justify-center gap-8"
+      style={{ background: props.backgroundColor ?? 'rgba(255, 255, 255, 0.96)', color: props.textColor ?? '#303235' }}
+      role="dialog"
+      aria-label={props.translations.voiceMode}
+    >
+      <button
+        type="button"
+        class="absolute top-4 end-4 p-2 bg-transparent border-0 hover:brightness-90"
+        title={props.translations.endVoiceMode}
+        onClick={() => props.onExit()}
+      >
+        <XIcon color={props.color ?? defaultColor} />
+      </button>
+      <div
+        class={
+          'w-40 h-40 rounded-full flex items-center justify-center transition-transform duration-100 ' +
+          (props.state === 'thinking' ? 'animate-pulse' : '')
+        }
+        style={{ background: props.color ?? defaultColor, transform: `scale(${scale()})` }}
+      >
+        <Switch>
+          <Match when={props.state === 'listening'}>
+            <RecordIcon color="#ffffff" />
+          </Match>
+          <Match when={props.state === 'thinking'}>
+            <div class="w-12 h-12 rounded-full border-4 border-white animate-spin" style={{ 'border-top-color': 'transparent' }} />
+          </Match>
+          <Match when={props.state === 'speaking'}>
+            <HeadphonesIcon color="#ffffff" width="48" height="48" />
+          </Match>
+        </Switch>
+      </div>
+      <span class="text-xl" aria-live="polite">
+        {props.translations[stateLabels[props.state]]}
+      </span>
+      <Show when={props.state === 'speaking'}>
+        <button
+          type="button"
+          class="px-4 py-2 rounded-full border-0 text-white hover:brightness-90"
+          style={{ background: props.color ?? defaultColor }}
+          onClick={() => props.onSkip()}
+        >
+          {props.translations.stopSpeaking}
+        </button>
+      </Show>
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 import { For, onMount } from 'solid-js';
 import { Marked } from '@ts-stack/markdown';
-import { FileUpload } from '../Bot';
+import type { Artifact } from '@/queries/streamProtocol';
 import { cloneDeep } from 'lodash';
+import { CodeBlockTitles, enhanceCodeBlocks, handleCodeBlockClick } from '@/utils/codeBlocks';
 
 type Props = {
   apiHost?: string;
@@ -9,11 +10,12 @@ type Props = {
   chatId: string;
   agentName: string;
   agentMessage: string;
-  agentArtifacts?: FileUpload[];
+  agentArtifacts?: Artifact[];
   backgroundColor?: string;
   textColor?: string;
   fontSize?: number;
   renderHTML?: boolean;
+  codeBlockTitles?: CodeBlockTitles;
 };
 
 const defaultBackgroundColor = '#f7f8ff';
@@ -30,15 +32,16 @@ export const AgentReasoningBubble = (props: Props) => {
       botMessageEl.querySelectorAll('a').forEach((link) => {
         link.target = '_blank';
       });
+      enhanceCodeBlocks(botMessageEl, [], props.codeBlockTitles);
     }
   });
 
-  const agentReasoningArtifacts = (artifacts: FileUpload[]) => {
+  const agentReasoningArtifacts = (artifacts: Artifact[]) => {
     const newArtifacts = cloneDeep(artifacts);
     for (let i = 0; i < newArtifacts.length; i++) {
       const artifact = newArtifacts[i];
       if (artifact && (artifact.type === 'png' || artifact.type === 'jpeg')) {
-        const data = artifact.data as string;
+        const data = artifact.data;
         newArtifacts[i].data = `${props.apiHost}/api/v1/get-upload-file?chatflowId=${props.chatflowid}&chatId=${props.chatId}&fileName=${data.replace(
           'FILE-STORAGE::',
           '',
@@ -48,23 +51,23 @@ export const AgentReasoningBubble = (props: Props) => {
     return newArtifacts;
   };
 
-  const renderArtifacts = (item: Partial<FileUpload>) => {
+  const renderArtifacts = (item: Artifact) => {
     if (item.type === 'png' || item.type === 'jpeg') {
-      const src = item.data as string;
+      const src = item.data;
       return (
-        <div class="flex items-center justify-center max-w-[128px] mr-[10px] p-0 m-0">
+        <div class="flex items-center justify-center max-w-[128px] me-[10px] p-0 m-0">
           <img class="w-full h-full bg-cover" src={src} />
         </div>
       );
     } else if (item.type === 'html') {
-      const src = item.data as string;
+      const src = item.data;
       return (
         <div class="mt-2">
           <div innerHTML={src} />
         </div>
       );
     } else {
-      const src = item.data as string;
+      const src = item.data;
       return (
         <span
           innerHTML={Marked.parse(src)}
@@ -95,6 +98,7 @@ export const AgentReasoningBubble = (props: Props) => {
         <span
           ref={botMessageEl}
           class="prose"
+          onClick={(e) => handleCodeBlockClick(e)}
           style={{
             'background-color': props.backgroundColor ?? defaultBackgroundColor,
             color: props.textColor ?? defaultTextColor,
@@ -1,42 +1,23 @@
-import { createEffect, Show, createSignal, onMount, For } from 'solid-js';
+import { createEffect, Show, createSignal, onMount, For, on } from 'solid-js';
 import { Avatar } from '../avatars/Avatar';
 import { Marked } from '@ts-stack/markdown';
 import { FeedbackRatingType, sendFeedbackQuery, sendFileDownloadQuery, updateFeedbackQuery } from '@/queries/sendMessageQuery';
-import { FileUpload, IAction, MessageType } from '../Bot';
-import { CopyToClipboardButton, ThumbsDownButton, ThumbsUpButton } from '../buttons/FeedbackButtons';
+import { IAction, MessageType } from '../Bot';
+import type { Artifact, FileAnnotation, SourceDocument } from '@/queries/streamProtocol';
+import { CopyToClipboardButton, RegenerateButton, SpeechButton, ThumbsDownButton, ThumbsUpButton } from '../buttons/FeedbackButtons';
 import FeedbackContentDialog from '../FeedbackContentDialog';
 import { AgentReasoningBubble } from './AgentReasoningBubble';
 import { TickIcon, XIcon } from '../icons';
 import { SourceBubble } from '../bubbles/SourceBubble';
 import { DateTimeToggleTheme } from '@/features/bubble/types';
-
-/**
- * Detects if text contains Arabic characters.
- */
-function detectLanguage(text: string): 'ar-XA' | 'en-US' {
-  // Simple check for Arabic characters
-  return /[\u0600-\u06FF]/.test(text) ? 'ar-XA' : 'en-US';
-}
-
-/**
- * Splits a single text string into language chunks based on detected script.
- */
-function splitTextNodeByLanguage(text: string): { text: string; lang: 'ar-XA' | 'en-US' }[] {
-  // Regex explanation: Match sequences of Arabic chars OR sequences of non-Arabic chars.
-  // This is simpler than the previous complex regex and aims to group based on script blocks.
-  const segments = text.match(/[\u0600-\u06FF]+|[^\u0600-\u06FF]+/g) || [];
-  const chunks: { text: string; lang: 'ar-XA' | 'en-US' }[] = [];
-
-  segments.forEach((segment) => {
-    if (segment) {
-      // Ensure segment is not empty
-      const lang = detectLanguage(segment);
-      chunks.push({ text: segment, lang: lang });
-    }
-  });
-  // console.log("Split Text Node:", text, "-> Chunks:", chunks); // Debugging
-  return chunks;
-}
+import { getLocalStorageChatflow, setLocalStorageChatflow } from '@/utils';
+import type { SyncChatStorage } from '@/utils/chatStorage';
+import { parseHTML, patchChildren } from '@/utils/patchDOM';
+import { stabilizePartialMarkdown } from '@/utils/streamingMarkdown';
+import { copiedClass, enhanceCodeBlocks, handleCodeBlockClick } from '@/utils/codeBlocks';
+import { splitTextNodeByLanguage } from '@/utils/languageChunks';
+import { SpeechState, speechRates } from '@/utils/textToSpeech';
+import type { Translations } from '@/i18n';
 
 /**
  * Recursively traverses DOM nodes of a temporary fragment, identifies text nodes,
@@ -100,10 +81,11 @@ function parseAndWrapBidiFromString(htmlString: string): string {
 type Props = {
   message: MessageType;
   chatflowid: string;
+  storageId?: string;
   chatId: string;
   apiHost?: string;
   onRequest?: (request: RequestInit) => Promise<void>;
-  fileAnnotations?: any;
+  fileAnnotations?: FileAnnotation[];
   showAvatar?: boolean;
   avatarSrc?: string;
   backgroundColor?: string;
@@ -112,12 +94,29 @@ type Props = {
   fontSize?: number;
   feedbackColor?: string;
   isLoading: boolean;
+  isReconnecting?: boolean;
+  chatStorage?: SyncChatStorage;
   dateTimeToggle?: DateTimeToggleTheme;
   showAgentMessages?: boolean;
   sourceDocsTitle?: string;
   renderHTML?: boolean;
   handleActionClick: (label: string, action: IAction | undefined | null) => void;
-  handleSourceDocumentsClick: (src: any) => void;
+  handleSourceDocumentsClick: (src: SourceDocument) => void;
+  onFeedbackSubmitted?: (feedback: { messageId: string; rating: FeedbackRatingType; content?: string }) => void;
+  isRegenerateDisabled?: boolean;
+  onRegenerate?: () => void;
+  onVersionChange?: (versionIndex: number) => void;
+  speech?: {
+    state: SpeechState;
+    rate: number;
+    showControls: boolean; // false when answers are only read automatically, then stopping is all that is offered
+    onPlay: () => void;
+    onPause: () => void;
+    onResume: () => void;
+    onStop: () => void;
+    onRateChange: (rate: number) => void;
+  };
+  translations: Translations;
 };
 
 const defaultBackgroundColor = '#f7f8ff';
@@ -132,13 +131,24 @@ export const BotBubble = (props: Props) => {
   Marked.setOptions({ isNoP: true, sanitize: props.renderHTML !== undefined ? !props.renderHTML : true });
 
   const [rating, setRating] = createSignal('');
+  const [wrappedCodeBlocks, setWrappedCodeBlocks] = createSignal<number[]>([]);
+
+  const versionIndex = () => props.message.versionIndex ?? 0;
+  const versionCount = () => props.message.versions?.length ?? 0;
+  const isFeedbackEnabled = () => props.chatFeedbackStatus && !!props.message.messageId;
+  const hasSpeechControls = () => !!props.speech && (props.speech.showControls || props.speech.state !== 'idle');
   const [feedbackId, setFeedbackId] = createSignal('');
   const [showFeedbackContentDialog, setShowFeedbackContentModal] = createSignal(false);
+  const codeBlockTitles = () => ({
+    copy: props.translations.copyCode,
+    download: props.translations.downloadCode,
+    wrap: props.translations.toggleLineWrapping,
+  });
   const [copiedMessage, setCopiedMessage] = createSignal(false);
   const [thumbsUpColor, setThumbsUpColor] = createSignal(props.feedbackColor ?? defaultFeedbackColor); // default color
   const [thumbsDownColor, setThumbsDownColor] = createSignal(props.feedbackColor ?? defaultFeedbackColor); // default color
 
-  const downloadFile = async (fileAnnotation: any) => {
+  const downloadFile = async (fileAnnotation: FileAnnotation) => {
     try {
       const response = await sendFileDownloadQuery({
         apiHost: props.apiHost,
@@ -171,22 +181,17 @@ export const BotBubble = (props: Props) => {
     }
   };
 
-  const saveToLocalStorage = (rating: FeedbackRatingType) => {
-    const chatDetails = localStorage.getItem(`${props.chatflowid}_EXTERNAL`);
-    if (!chatDetails) return;
-    try {
-      const parsedDetails = JSON.parse(chatDetails);
-      const messages: MessageType[] = parsedDetails.chatHistory || [];
-      const message = messages.find((msg) => msg.messageId === props.message.messageId);
-      if (!message) return;
-      message.rating = rating;
-      localStorage.setItem(`${props.chatflowid}_EXTERNAL`, JSON.stringify({ ...parsedDetails, chatHistory: messages }));
-    } catch (e) {
-      return;
-    }
+  const saveRating = (rating: FeedbackRatingType) => {
+    const storageId = props.storageId ?? props.chatflowid;
+    const messages: MessageType[] = getLocalStorageChatflow(storageId, props.chatStorage).chatHistory || [];
+    const message = messages.find((msg) => msg.messageId === props.message.messageId);
+    if (!message) return;
+    message.rating = rating;
+    setLocalStorageChatflow(storageId, '', { chatHistory: messages }, props.chatStorage);
   };
 
-  const isValidURL = (url: string): URL | undefined => {
+  const isValidURL = (url?: string): URL | undefined => {
+    if (!url) return undefined;
     try {
       return new URL(url);
     } catch (err) {
@@ -196,13 +201,14 @@ export const BotBubble = (props: Props) => {
 
   const removeDuplicateURL = (message: MessageType) => {
     const visitedURLs: string[] = [];
-    const newSourceDocuments: any = [];
+    const newSourceDocuments: SourceDocument[] = [];
 
-    message.sourceDocuments.forEach((source: any) => {
-      if (isValidURL(source.metadata.source) && !visitedURLs.includes(source.metadata.source)) {
-        visitedURLs.push(source.metadata.source);
+    message.sourceDocuments?.forEach((source) => {
+      const url = source.metadata.source;
+      if (url && isValidURL(url) && !visitedURLs.includes(url)) {
+        visitedURLs.push(url);
         newSourceDocuments.push(source);
-      } else if (!isValidURL(source.metadata.source)) {
+      } else if (!isValidURL(url)) {
         newSourceDocuments.push(source);
       }
     });
@@ -234,7 +240,8 @@ export const BotBubble = (props: Props) => {
         setShowFeedbackContentModal(true);
         // update the thumbs up color state
         setThumbsUpColor('#006400');
-        saveToLocalStorage('THUMBS_UP');
+        saveRating('THUMBS_UP');
+        props.onFeedbackSubmitted?.({ messageId: body.messageId, rating: body.rating });
       }
     }
   };
@@ -264,7 +271,8 @@ export const BotBubble = (props: Props) => {
         setShowFeedbackContentModal(true);
         // update the thumbs down color state
         setThumbsDownColor('#8B0000');
-        saveToLocalStorage('THUMBS_DOWN');
+        saveRating('THUMBS_DOWN');
+        props.onFeedbackSubmitted?.({ messageId: body.messageId, rating: body.rating });
       }
     }
   };
@@ -281,80 +289,66 @@ export const BotBubble = (props: Props) => {
     });
 
     if (result.data) {
+      props.onFeedbackSubmitted?.({ messageId: props.message?.messageId as string, rating: rating() as FeedbackRatingType, content: text });
       setFeedbackId('');
       setShowFeedbackContentModal(false);
     }
   };
 
-  // ***** MODIFIED onMount HOOK *****
-  // This runs after the component's elements are first added to the DOM
-  onMount(() => {
-    // Ensure the target element (botMessageEl span) exists
-    if (botMessageEl) {
-      const originalMessage = props.message.message;
-
-      // 1. Parse the original message using Marked (handles Markdown and potentially HTML)
-      let processedHtml = Marked.parse(originalMessage);
-
-      // 2. Check the original message content for Arabic characters
-      const hasArabic = /[\u0600-\u06FF]/.test(originalMessage);
-
-      // 3. Apply RTL handling if Arabic is detected
-      if (hasArabic) {
-        console.log('BotBubble: Applying RTL direction and bidi wrapping.');
-        // 3a. Set base direction and unicode-bidi style on the main bubble element (botMessageEl)
-        botMessageEl.dir = 'rtl';
-        botMessageEl.style.unicodeBidi = 'plaintext'; // Or 'isolate'. 'plaintext' often works well for inline mixing.
-        // Optional: Adjust text alignment if needed for the whole bubble.
-        // botMessageEl.style.textAlign = 'right';
-
-        // 3b. Process the HTML string (result of Marked.parse) to wrap inline LTR/RTL text segments
-        processedHtml = parseAndWrapBidiFromString(processedHtml);
-      } else {
-        // Ensure default LTR settings if no Arabic is detected
-        botMessageEl.dir = 'ltr';
-        botMessageEl.style.unicodeBidi = ''; // Reset style
-        botMessageEl.style.textAlign = ''; // Reset style
-      }
-
-      // 4. Set the final processed HTML content into the bubble element
-      botMessageEl.innerHTML = processedHtml;
+  // the answer is rendered again as it streams in, only the nodes that changed are replaced
+  createEffect(() => {
+    const originalMessage = props.message.message;
+    if (!botMessageEl) return;
+
+    // 1. Parse the original message using Marked (handles Markdown and potentially HTML),
+    //    unfinished code blocks and tables are kept stable while the answer streams in
+    let processedHtml = Marked.parse(props.isLoading ? stabilizePartialMarkdown(originalMessage) : originalMessage);
+
+    // 2. Check the original message content for Arabic characters
+    const hasArabic = /[\u0600-\u06FF]/.test(originalMessage);
+
+    // 3. Apply RTL handling if Arabic is detected
+    if (hasArabic) {
+      // 3a. Set base direction and unicode-bidi style on the main bubble element (botMessageEl)
+      botMessageEl.dir = 'rtl';
+      botMessageEl.style.unicodeBidi = 'plaintext'; // Or 'isolate'. 'plaintext' often works well for inline mixing.
+      // Optional: Adjust text alignment if needed for the whole bubble.
+      // botMessageEl.style.textAlign = 'right';
+
+      // 3b. Process the HTML string (result of Marked.parse) to wrap inline LTR/RTL text segments
+      processedHtml = parseAndWrapBidiFromString(processedHtml);
+    } else {
+      // Ensure default LTR settings if no Arabic is detected
+      botMessageEl.dir = 'ltr';
+      botMessageEl.style.unicodeBidi = ''; // Reset style
+      botMessageEl.style.textAlign = ''; // Reset style
+    }
 
-      // 5. Run original post-processing logic AFTER setting innerHTML
-      //    (Example: Make sure links open in new tabs)
-      botMessageEl.querySelectorAll('a').forEach((link) => {
-        link.target = '_blank';
-      });
+    // 4. Post-process the parsed content before it is patched in, so links open in new tabs
+    //    and code blocks are highlighted with their toolbar
+    const content = parseHTML(processedHtml);
+    content.querySelectorAll('a').forEach((link) => {
+      link.target = '_blank';
+    });
+    enhanceCodeBlocks(content, wrappedCodeBlocks(), codeBlockTitles());
 
-      // Restore feedback rating state if it exists in the message data
-      if (props.message.rating) {
-        setRating(props.message.rating);
-        if (props.message.rating === 'THUMBS_UP') {
-          setThumbsUpColor('#006400');
-        } else if (props.message.rating === 'THUMBS_DOWN') {
-          setThumbsDownColor('#8B0000');
-        }
-      }
+    // 5. Update the bubble element to the processed content
+    patchChildren(botMessageEl, content, { keepClasses: [copiedClass] });
+  });
 
-      // Dynamically add file annotation buttons if they exist
-      if (props.fileAnnotations && props.fileAnnotations.length) {
-        for (const annotations of props.fileAnnotations) {
-          const button = document.createElement('button');
-          button.textContent = annotations.fileName;
-          button.className =
-            'py-2 px-4 mb-2 justify-center font-semibold text-white focus:outline-none flex items-center disabled:opacity-50 disabled:cursor-not-allowed disabled:brightness-100 transition-all filter hover:brightness-90 active:brightness-75 file-annotation-button'; // Ensure all needed classes are here
-          button.addEventListener('click', () => downloadFile(annotations)); // Use arrow function for correct scope
-
-          const svgContainer = document.createElement('div');
-          svgContainer.className = 'ml-2';
-          svgContainer.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" class="icon icon-tabler icon-tabler-download" width="24" height="24" viewBox="0 0 24 24" stroke-width="2" stroke="#ffffff" fill="none" stroke-linecap="round" stroke-linejoin="round"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M4 17v2a2 2 0 0 0 2 2h12a2 2 0 0 0 2 -2v-2" /><path d="M7 11l5 5l5 -5" /><path d="M12 4l0 12" /></svg>`;
-
-          button.appendChild(svgContainer);
-          botMessageEl.appendChild(button); // Append the button to the message element
-        }
-      }
-    } // End of if (botMessageEl)
+  // Restore feedback rating state if it exists in the message data, also when another version is shown
+  createEffect(
+    on(
+      () => props.message.rating,
+      (savedRating) => {
+        setRating(savedRating ?? '');
+        setThumbsUpColor(savedRating === 'THUMBS_UP' ? '#006400' : props.feedbackColor ?? defaultFeedbackColor);
+        setThumbsDownColor(savedRating === 'THUMBS_DOWN' ? '#8B0000' : props.feedbackColor ?? defaultFeedbackColor);
+      },
+    ),
+  );
 
+  onMount(() => {
     // Logic to open agent reasoning details if loading
     if (botDetailsEl && props.isLoading) {
       botDetailsEl.open = true;
@@ -369,7 +363,7 @@ export const BotBubble = (props: Props) => {
     }
   });
 
-  const renderArtifacts = (item: Partial<FileUpload>) => {
+  const renderArtifacts = (item: Artifact) => {
     return (
       <>
         <Show when={item.type === 'png' || item.type === 'jpeg'}>
@@ -377,24 +371,25 @@ export const BotBubble = (props: Props) => {
             <img
               class="w-full h-full bg-cover"
               src={(() => {
-                const isFileStorage = typeof item.data === 'string' && item.data.startsWith('FILE-STORAGE::');
+                const isFileStorage = item.data.startsWith('FILE-STORAGE::');
                 return isFileStorage
-                  ? `${props.apiHost}/api/v1/get-upload-file?chatflowId=${props.chatflowid}&chatId=${props.chatId}&fileName=${(
-                      item.data as string
-                    ).replace('FILE-STORAGE::', '')}`
-                  : (item.data as string);
+                  ? `${props.apiHost}/api/v1/get-upload-file?chatflowId=${props.chatflowid}&chatId=${props.chatId}&fileName=${item.data.replace(
+                      'FILE-STORAGE::',
+                      '',
+                    )}`
+                  : item.data;
               })()}
             />
           </div>
         </Show>
         <Show when={item.type === 'html'}>
           <div class="mt-2">
-            <div innerHTML={item.data as string} />
+            <div innerHTML={item.data} />
           </div>
         </Show>
         <Show when={item.type !== 'png' && item.type !== 'jpeg' && item.type !== 'html'}>
           <span
-            innerHTML={Marked.parse(item.data as string)}
+            innerHTML={Marked.parse(item.data)}
             class="prose"
             style={{
               'background-color': props.backgroundColor ?? defaultBackgroundColor,
@@ -453,22 +448,22 @@ export const BotBubble = (props: Props) => {
 
   return (
     <div>
-      <div class="flex flex-row justify-start mb-2 items-start host-container" style={{ 'margin-right': '50px' }}>
+      <div class="flex flex-row justify-start mb-2 items-start host-container" style={{ 'margin-inline-end': '50px' }}>
         <Show when={props.showAvatar}>
           <Avatar initialAvatarSrc={props.avatarSrc} />
         </Show>
         <div class="flex flex-col justify-start">
           {props.showAgentMessages && props.message.agentReasoning && (
-            <details ref={botDetailsEl} class="mb-2 px-4 py-2 ml-2 chatbot-host-bubble rounded-[6px]">
+            <details ref={botDetailsEl} class="mb-2 px-4 py-2 ms-2 chatbot-host-bubble rounded-[6px]">
               <summary class="cursor-pointer">
-                <span class="italic">Agent Messages</span>
+                <span class="italic">{props.translations.agentMessages}</span>
               </summary>
               <br />
               <For each={props.message.agentReasoning}>
                 {(agent) => {
                   const agentMessages = agent.messages ?? [];
                   let msgContent = agent.instructions || (agentMessages.length > 1 ? agentMessages.join('\\n') : agentMessages[0]);
-                  if (agentMessages.length === 0 && !agent.instructions) msgContent = `<p>Finished</p>`;
+                  if (agentMessages.length === 0 && !agent.instructions) msgContent = `<p>${props.translations.agentFinished}</p>`;
                   return (
                     <AgentReasoningBubble
                       agentName={agent.agentName ?? ''}
@@ -481,6 +476,7 @@ export const BotBubble = (props: Props) => {
                       chatflowid={props.chatflowid}
                       chatId={props.chatId}
                       renderHTML={props.renderHTML}
+                      codeBlockTitles={codeBlockTitles()}
                     />
                   );
                 }}
@@ -498,8 +494,7 @@ export const BotBubble = (props: Props) => {
           )}
           {props.message.message && (
             <span
-              ref={botMessageEl}
-              class="px-4 py-2 ml-2 max-w-full chatbot-host-bubble prose"
+              class="px-4 py-2 ms-2 max-w-full chatbot-host-bubble prose"
               data-testid="host-bubble"
               style={{
                 'background-color': props.backgroundColor ?? defaultBackgroundColor,
@@ -507,10 +502,55 @@ export const BotBubble = (props: Props) => {
                 'border-radius': '6px',
                 'font-size': props.fontSize ? `${props.fontSize}px` : `${defaultFontSize}px`,
               }}
-            />
+            >
+              <div
+                ref={botMessageEl}
+                onClick={(e) =>
+                  handleCodeBlockClick(e, (index) =>
+                    setWrappedCodeBlocks((blocks) => (blocks.includes(index) ? blocks.filter((block) => block !== index) : [...blocks, index])),
+                  )
+                }
+              />
+              <For each={props.fileAnnotations ?? []}>
+                {(annotation) => (
+                  <button
+                    type="button"
+                    class="py-2 px-4 mb-2 justify-center font-semibold text-white focus:outline-none flex items-center disabled:opacity-50 disabled:cursor-not-allowed disabled:brightness-100 transition-all filter hover:brightness-90 active:brightness-75 file-annotation-button"
+                    onClick={() => downloadFile(annotation)}
+                  >
+                    {annotation.fileName}
+                    <div class="ms-2">
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        class="icon icon-tabler icon-tabler-download"
+                        width="24"
+                        height="24"
+                        viewBox="0 0 24 24"
+                        stroke-width="2"
+                        stroke="#ffffff"
+                        fill="none"
+                        stroke-linecap="round"
+                        stroke-linejoin="round"
+                      >
+                        <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+                        <path d="M4 17v2a2 2 0 0 0 2 2h12a2 2 0 0 0 2 -2v-2" />
+                        <path d="M7 11l5 5l5 -5" />
+                        <path d="M12 4l0 12" />
+                      </svg>
+                    </div>
+                  </button>
+                )}
+              </For>
+            </span>
           )}
+          <Show when={props.message.interrupted}>
+            <span class="px-4 pt-1 ms-2 text-sm italic text-gray-500">{props.translations.responseStopped}</span>
+          </Show>
+          <Show when={props.isReconnecting}>
+            <span class="px-4 pt-1 ms-2 text-sm italic text-gray-500 animate-pulse">{props.translations.reconnecting}</span>
+          </Show>
           {props.message.action && (
-            <div class="px-4 py-2 flex flex-row justify-start space-x-2">
+            <div class="px-4 py-2 flex flex-row justify-start gap-2">
               <For each={props.message.action.elements || []}>
                 {(action) => {
                   return (
@@ -518,7 +558,7 @@ export const BotBubble = (props: Props) => {
                       {action.type === 'approve-button' ? (
                         <button
                           type="button"
-                          class="px-4 py-2 font-medium text-green-600 border border-green-600 rounded-full hover:bg-green-600 hover:text-white transition-colors duration-300 flex items-center space-x-2"
+                          class="px-4 py-2 font-medium text-green-600 border border-green-600 rounded-full hover:bg-green-600 hover:text-white transition-colors duration-300 flex items-center gap-2"
                           onClick={() => props.handleActionClick(action.label, props.message.action)}
                         >
                           <TickIcon />
@@ -528,7 +568,7 @@ export const BotBubble = (props: Props) => {
                       ) : action.type === 'reject-button' ? (
                         <button
                           type="button"
-                          class="px-4 py-2 font-medium text-red-600 border border-red-600 rounded-full hover:bg-red-600 hover:text-white transition-colors duration-300 flex items-center space-x-2"
+                          class="px-4 py-2 font-medium text-red-600 border border-red-600 rounded-full hover:bg-red-600 hover:text-white transition-colors duration-300 flex items-center gap-2"
                           onClick={() => props.handleActionClick(action.label, props.message.action)}
                         >
                           <XIcon isCurrentColor={true} />
@@ -547,7 +587,7 @@ export const BotBubble = (props: Props) => {
         </div>
       </div>
       <div>
-        {props.message.sourceDocuments && props.message.sourceDocuments.length && (
+        {props.message.sourceDocuments && props.message.sourceDocuments.length > 0 && (
           <>
             <Show when={props.sourceDocsTitle}>
               <span class="px-2 py-[10px] font-semibold">{props.sourceDocsTitle}</span>
@@ -576,43 +616,142 @@ export const BotBubble = (props: Props) => {
         )}
       </div>
       <div>
-        {props.chatFeedbackStatus && props.message.messageId && (
-          <>
-            <div class={`flex items-center px-2 pb-2 ${props.showAvatar ? 'ml-10' : ''}`}>
-              <CopyToClipboardButton feedbackColor={props.feedbackColor} onClick={() => copyMessageToClipboard()} />
+        <Show when={isFeedbackEnabled() || (!props.isLoading && (props.onRegenerate || versionCount() > 1 || hasSpeechControls()))}>
+          <div class={`flex items-center px-2 pb-2 ${props.showAvatar ? 'ms-10' : ''}`}>
+            <Show when={versionCount() > 1}>
+              <div class="flex items-center text-sm text-gray-500" data-testid="bot-bubble-versions">
+                <button
+                  type="button"
+                  class="px-1 bg-transparent disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={props.translations.previousVersion}
+                  disabled={props.isRegenerateDisabled || versionIndex() === 0}
+                  onClick={() => props.onVersionChange?.(versionIndex() - 1)}
+                >
+                  {'<'}
+                </button>
+                <span>
+                  {versionIndex() + 1}/{versionCount()}
+                </span>
+                <button
+                  type="button"
+                  class="px-1 bg-transparent disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={props.translations.nextVersion}
+                  disabled={props.isRegenerateDisabled || versionIndex() === versionCount() - 1}
+                  onClick={() => props.onVersionChange?.(versionIndex() + 1)}
+                >
+                  {'>'}
+                </button>
+              </div>
+            </Show>
+            <Show when={props.speech && !props.isLoading}>
+              <Show
+                when={props.speech?.state !== 'idle'}
+                fallback={
+                  <Show when={props.speech?.showControls}>
+                    <SpeechButton
+                      speechAction="play"
+                      title={props.translations.readAloud}
+                      feedbackColor={props.feedbackColor}
+                      onClick={() => props.speech?.onPlay()}
+                    />
+                  </Show>
+                }
+              >
+                <div class="flex items-center" data-testid="bot-bubble-speech">
+                  <Show when={props.speech?.showControls}>
+                    <Show
+                      when={props.speech?.state === 'playing'}
+                      fallback={
+                        <SpeechButton
+                          speechAction="resume"
+                          title={props.translations.resumeReading}
+                          feedbackColor={props.feedbackColor}
+                          onClick={() => props.speech?.onResume()}
+                        />
+                      }
+                    >
+                      <SpeechButton
+                        speechAction="pause"
+                        title={props.translations.pauseReading}
+                        feedbackColor={props.feedbackColor}
+                        onClick={() => props.speech?.onPause()}
+                      />
+                    </Show>
+                  </Show>
+                  <SpeechButton
+                    speechAction="stop"
+                    title={props.translations.stopReading}
+                    feedbackColor={props.feedbackColor}
+                    onClick={() => props.speech?.onStop()}
+                  />
+                  <Show when={props.speech?.showControls}>
+                    <select
+                      class="text-sm text-gray-500 bg-transparent cursor-pointer"
+                      title={props.translations.readingSpeed}
+                      value={props.speech?.rate}
+                      onChange={(e) => props.speech?.onRateChange(Number(e.currentTarget.value))}
+                    >
+                      <For each={speechRates}>{(rate) => <option value={rate}>{rate}x</option>}</For>
+                    </select>
+                  </Show>
+                </div>
+              </Show>
+            </Show>
+            <Show when={props.onRegenerate && !props.isLoading}>
+              <RegenerateButton
+                feedbackColor={props.feedbackColor}
+                title={props.translations.regenerate}
+                isDisabled={props.isRegenerateDisabled}
+                onClick={() => props.onRegenerate?.()}
+              />
+            </Show>
+            <Show when={isFeedbackEnabled()}>
+              <CopyToClipboardButton
+                feedbackColor={props.feedbackColor}
+                title={props.translations.copyToClipboard}
+                onClick={() => copyMessageToClipboard()}
+              />
               <Show when={copiedMessage()}>
                 <div class="copied-message" style={{ color: props.feedbackColor ?? defaultFeedbackColor }}>
-                  Copied!
+                  {props.translations.copied}
                 </div>
               </Show>
               {rating() === '' || rating() === 'THUMBS_UP' ? (
-                <ThumbsUpButton feedbackColor={thumbsUpColor()} isDisabled={rating() === 'THUMBS_UP'} rating={rating()} onClick={onThumbsUpClick} />
+                <ThumbsUpButton
+                  feedbackColor={thumbsUpColor()}
+                  title={props.translations.thumbsUp}
+                  isDisabled={rating() === 'THUMBS_UP'}
+                  rating={rating()}
+                  onClick={onThumbsUpClick}
+                />
               ) : null}
               {rating() === '' || rating() === 'THUMBS_DOWN' ? (
                 <ThumbsDownButton
                   feedbackColor={thumbsDownColor()}
+                  title={props.translations.thumbsDown}
                   isDisabled={rating() === 'THUMBS_DOWN'}
                   rating={rating()}
                   onClick={onThumbsDownClick}
                 />
               ) : null}
               <Show when={props.message.dateTime}>
-                <div class="text-sm text-gray-500 ml-2">
+                <div class="text-sm text-gray-500 ms-2">
                   {formatDateTime(props.message.dateTime, props?.dateTimeToggle?.date, props?.dateTimeToggle?.time)}
                 </div>
               </Show>
-            </div>
-            <Show when={showFeedbackContentDialog()}>
-              <FeedbackContentDialog
-                isOpen={showFeedbackContentDialog()}
-                onClose={() => setShowFeedbackContentModal(false)}
-                onSubmit={submitFeedbackContent}
-                backgroundColor={props.backgroundColor}
-                textColor={props.textColor}
-              />
             </Show>
-          </>
-        )}
+          </div>
+        </Show>
+        <Show when={isFeedbackEnabled() && showFeedbackContentDialog()}>
+          <FeedbackContentDialog
+            isOpen={showFeedbackContentDialog()}
+            onClose={() => setShowFeedbackContentModal(false)}
+            onSubmit={submitFeedbackContent}
+            backgroundColor={props.backgroundColor}
+            textColor={props.textColor}
+            translations={props.translations}
+          />
+        </Show>
       </div>
     </div>
   );
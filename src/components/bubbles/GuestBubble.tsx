@@ -1,8 +1,9 @@
-import { For, Show, onMount } from 'solid-js';
+import { For, Show, createEffect, createSignal } from 'solid-js';
 import { Avatar } from '../avatars/Avatar';
 import { Marked } from '@ts-stack/markdown';
 import { FileUpload, MessageType } from '../Bot';
-import { AttachmentIcon } from '../icons';
+import { AttachmentIcon, EditIcon } from '../icons';
+import type { Translations } from '@/i18n';
 
 type Props = {
   message: MessageType;
@@ -15,6 +16,11 @@ type Props = {
   textColor?: string;
   fontSize?: number;
   renderHTML?: boolean;
+  isPending?: boolean;
+  isEditDisabled?: boolean;
+  onEdit?: (value: string) => void;
+  onBranchChange?: (branchIndex: number) => void;
+  translations: Translations;
 };
 
 const defaultBackgroundColor = '#3B81F6';
@@ -23,12 +29,25 @@ const defaultFontSize = 16;
 
 export const GuestBubble = (props: Props) => {
   let userMessageEl: HTMLDivElement | undefined;
+  let editInputEl: HTMLTextAreaElement | undefined;
+  const [isEditing, setIsEditing] = createSignal(false);
+
+  const branchIndex = () => props.message.branchIndex ?? 0;
+  const branchCount = () => props.message.branches?.length ?? 0;
+
+  const submitEdit = (value: string) => {
+    if (value.trim() === '') return;
+    setIsEditing(false);
+    if (value !== props.message.message) props.onEdit?.(value);
+  };
 
   Marked.setOptions({ isNoP: true, sanitize: props.renderHTML !== undefined ? !props.renderHTML : true });
 
-  onMount(() => {
+  // the bubble is kept when the question at its place changes, e.g. when switching branches
+  createEffect(() => {
+    const message = props.message.message;
     if (userMessageEl) {
-      userMessageEl.innerHTML = Marked.parse(props.message.message);
+      userMessageEl.innerHTML = Marked.parse(message);
     }
   });
 
@@ -37,7 +56,7 @@ export const GuestBubble = (props: Props) => {
       const fileData = `${props.apiHost}/api/v1/get-upload-file?chatflowId=${props.chatflowid}&chatId=${props.chatId}&fileName=${item.name}`;
       const src = (item.data as string) ?? fileData;
       return (
-        <div class="flex items-center justify-center max-w-[128px] mr-[10px] p-0 m-0">
+        <div class="flex items-center justify-center max-w-[128px] me-[10px] p-0 m-0">
           <img class="w-full h-full bg-cover" src={src} />
         </div>
       );
@@ -52,41 +71,124 @@ export const GuestBubble = (props: Props) => {
       );
     } else {
       return (
-        <div class={`inline-flex items-center h-12 max-w-max p-2 mr-1 flex-none bg-transparent border border-gray-300 rounded-md`}>
+        <div class={`inline-flex items-center h-12 max-w-max p-2 me-1 flex-none bg-transparent border border-gray-300 rounded-md`}>
           <AttachmentIcon color={props.textColor ?? defaultTextColor} />
-          <span class={`ml-1.5 text-inherit`}>{item.name}</span>
+          <span class={`ms-1.5 text-inherit`}>{item.name}</span>
         </div>
       );
     }
   };
 
   return (
-    <div class="flex justify-end mb-2 items-end guest-container" style={{ 'margin-left': '50px' }}>
-      <div
-        class="max-w-full flex flex-col justify-center items-start chatbot-guest-bubble px-4 py-2 gap-2 mr-2"
-        data-testid="guest-bubble"
-        style={{
-          'background-color': props.backgroundColor ?? defaultBackgroundColor,
-          color: props.textColor ?? defaultTextColor,
-          'border-radius': '6px',
-        }}
-      >
-        {props.message.fileUploads && props.message.fileUploads.length > 0 && (
-          <div class="flex flex-col items-start flex-wrap w-full gap-2">
-            <For each={props.message.fileUploads}>
-              {(item) => {
-                return renderFileUploads(item);
+    <div class="flex justify-end mb-2 items-end guest-container" style={{ 'margin-inline-start': '50px' }}>
+      <div class="max-w-full flex flex-col items-end gap-1 me-2">
+        <div
+          class="max-w-full flex flex-col justify-center items-start chatbot-guest-bubble px-4 py-2 gap-2"
+          data-testid="guest-bubble"
+          style={{
+            'background-color': props.backgroundColor ?? defaultBackgroundColor,
+            color: props.textColor ?? defaultTextColor,
+            'border-radius': '6px',
+            opacity: props.isPending ? 0.6 : 1,
+          }}
+        >
+          {props.message.fileUploads && props.message.fileUploads.length > 0 && (
+            <div class="flex flex-col items-start flex-wrap w-full gap-2">
+              <For each={props.message.fileUploads}>
+                {(item) => {
+                  return renderFileUploads(item);
+                }}
+              </For>
+            </div>
+          )}
+          {props.message.message && (
+            <span
+              ref={userMessageEl}
+              dir="auto"
+              class="me-2 whitespace-pre-wrap"
+              classList={{ hidden: isEditing() }}
+              style={{ 'font-size': props.fontSize ? `${props.fontSize}px` : `${defaultFontSize}px` }}
+            />
+          )}
+          <Show when={isEditing()}>
+            <textarea
+              ref={(el) => {
+                editInputEl = el;
+                setTimeout(() => el.focus());
               }}
-            </For>
+              dir="auto"
+              class="w-full min-w-[240px] p-2 rounded-md bg-transparent resize-y"
+              style={{
+                border: '1px solid currentColor',
+                color: 'inherit',
+                'font-size': props.fontSize ? `${props.fontSize}px` : `${defaultFontSize}px`,
+              }}
+              rows={3}
+              value={props.message.message}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit(e.currentTarget.value);
+                }
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+            />
+            <div class="flex justify-end gap-2 w-full text-sm">
+              <button type="button" class="px-2 py-1 rounded-md bg-transparent hover:bg-white/20" onClick={() => setIsEditing(false)}>
+                {props.translations.cancelEdit}
+              </button>
+              <button
+                type="button"
+                class="px-2 py-1 rounded-md font-semibold bg-white/20 hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={props.isEditDisabled}
+                onClick={() => submitEdit(editInputEl?.value ?? '')}
+              >
+                {props.translations.sendEdit}
+              </button>
+            </div>
+          </Show>
+          <Show when={props.isPending}>
+            <span class="text-xs italic">{props.translations.pendingMessage}</span>
+          </Show>
+        </div>
+        <Show when={props.onEdit && !props.isPending && !isEditing()}>
+          <div class="flex items-center gap-1 text-xs text-gray-500" data-testid="guest-bubble-controls">
+            <Show when={branchCount() > 1}>
+              <button
+                type="button"
+                class="px-1 bg-transparent disabled:opacity-40 disabled:cursor-not-allowed"
+                title={props.translations.previousVersion}
+                disabled={props.isEditDisabled || branchIndex() === 0}
+                onClick={() => props.onBranchChange?.(branchIndex() - 1)}
+              >
+                {'<'}
+              </button>
+              <span>
+                {branchIndex() + 1}/{branchCount()}
+              </span>
+              <button
+                type="button"
+                class="px-1 bg-transparent disabled:opacity-40 disabled:cursor-not-allowed"
+                title={props.translations.nextVersion}
+                disabled={props.isEditDisabled || branchIndex() === branchCount() - 1}
+                onClick={() => props.onBranchChange?.(branchIndex() + 1)}
+              >
+                {'>'}
+              </button>
+            </Show>
+            <Show when={props.message.message}>
+              <button
+                type="button"
+                class="p-1 bg-transparent opacity-60 hover:opacity-100 disabled:opacity-30 disabled:cursor-not-allowed"
+                title={props.translations.editMessage}
+                disabled={props.isEditDisabled}
+                onClick={() => setIsEditing(true)}
+              >
+                <EditIcon color="currentColor" width="14" height="14" />
+              </button>
+            </Show>
           </div>
-        )}
-        {props.message.message && (
-          <span
-            ref={userMessageEl}
-            class="mr-2 whitespace-pre-wrap"
-            style={{ 'font-size': props.fontSize ? `${props.fontSize}px` : `${defaultFontSize}px` }}
-          />
-        )}
+        </Show>
       </div>
       <Show when={props.showAvatar}>
         <Avatar initialAvatarSrc={props.avatarSrc} />
@@ -0,0 +1,21 @@
+import { For } from 'solid-js';
+
+// alternating guest and host placeholders, widths vary so it reads as a conversation
+const placeholders = [
+  { isGuest: true, width: '45%', height: '36px' },
+  { isGuest: false, width: '75%', height: '64px' },
+  { isGuest: true, width: '35%', height: '36px' },
+  { isGuest: false, width: '60%', height: '48px' },
+];
+
+export const HistorySkeleton = () => (
+  <div class="flex flex-col gap-3 mb-2 animate-pulse" data-testid="history-skeleton">
+    <For each={placeholders}>
+      {(placeholder) => (
+        <div class={`flex ${placeholder.isGuest ? 'justify-end me-2' : 'justify-start ms-2'}`}>
+          <div class="bg-gray-200" style={{ width: placeholder.width, height: placeholder.height, 'border-radius': '6px' }} />
+        </div>
+      )}
+    </For>
+  </div>
+);
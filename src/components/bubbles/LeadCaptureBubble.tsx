@@ -5,13 +5,18 @@ import { addLeadQuery, LeadCaptureInput } from '@/queries/sendMessageQuery';
 import { SaveLeadButton } from '@/components/buttons/LeadCaptureButtons';
 import { Avatar } from '@/components/avatars/Avatar';
 import { getLocalStorageChatflow, setLocalStorageChatflow } from '@/utils';
+import type { SyncChatStorage } from '@/utils/chatStorage';
+import type { Translations } from '@/i18n';
 
 type Props = {
   message: MessageType;
   chatflowid: string;
+  storageId?: string;
   chatId: string;
   leadsConfig?: LeadsConfig;
+  chatStorage?: SyncChatStorage;
   apiHost?: string;
+  onRequest?: (request: RequestInit) => Promise<void>;
   showAvatar?: boolean;
   avatarSrc?: string;
   backgroundColor?: string;
@@ -21,6 +26,8 @@ type Props = {
   isLeadSaved: boolean;
   setIsLeadSaved: (value: boolean) => void;
   setLeadEmail: (value: string) => void;
+  onLeadCaptured?: (lead: { name?: string; email?: string; phone?: string }) => void;
+  translations: Translations;
 };
 
 const defaultBackgroundColor = '#f7f8ff';
@@ -28,11 +35,12 @@ const defaultTextColor = '#303235';
 const defaultFontSize = 16;
 const phoneRegex = new RegExp(/^([+]?[\s0-9]+)?(\d{3}|[(]?[0-9]+[)])?([-]?[\s]?[0-9])+$/);
 
-const LeadCaptureSchema = z.object({
-  name: z.string().min(2, 'Name is too short').optional(),
-  email: z.string().email('Please provide a valid email').optional(),
-  phone: z.string().min(5, 'Phone number is too short').regex(phoneRegex, 'Invalid Number!').optional(),
-});
+const createLeadCaptureSchema = (translations: Translations) =>
+  z.object({
+    name: z.string().min(2, translations.leadNameTooShort).optional(),
+    email: z.string().email(translations.leadInvalidEmail).optional(),
+    phone: z.string().min(5, translations.leadPhoneTooShort).regex(phoneRegex, translations.leadInvalidPhone).optional(),
+  });
 
 export const LeadCaptureBubble = (props: Props) => {
   const [leadName, setLeadName] = createSignal<string>('');
@@ -46,7 +54,7 @@ export const LeadCaptureBubble = (props: Props) => {
     setIsLeadSaving(true);
 
     const data = Object.fromEntries(new FormData(e.currentTarget));
-    const res = LeadCaptureSchema.safeParse(data);
+    const res = createLeadCaptureSchema(props.translations).safeParse(data);
 
     if (res.success) {
       const body: LeadCaptureInput = {
@@ -60,18 +68,25 @@ export const LeadCaptureBubble = (props: Props) => {
       const result = await addLeadQuery({
         apiHost: props.apiHost,
         body,
+        onRequest: props.onRequest,
       });
 
       if (result.data) {
-        setLocalStorageChatflow(props.chatflowid, props.chatId, {
-          lead: {
-            name: leadName(),
-            email: leadEmail(),
-            phone: leadPhone(),
+        setLocalStorageChatflow(
+          props.storageId ?? props.chatflowid,
+          props.chatId,
+          {
+            lead: {
+              name: leadName(),
+              email: leadEmail(),
+              phone: leadPhone(),
+            },
           },
-        });
+          props.chatStorage,
+        );
         props.setIsLeadSaved(true);
         props.setLeadEmail(leadEmail());
+        props.onLeadCaptured?.({ name: leadName(), email: leadEmail(), phone: leadPhone() });
       }
     } else {
       const error = res.error.flatten();
@@ -82,12 +97,12 @@ export const LeadCaptureBubble = (props: Props) => {
   };
 
   return (
-    <div class="flex flex-row justify-start mb-2 items-start host-container" style={{ 'margin-right': '50px' }}>
+    <div class="flex flex-row justify-start mb-2 items-start host-container" style={{ 'margin-inline-end': '50px' }}>
       <Show when={props.showAvatar}>
         <Avatar initialAvatarSrc={props.avatarSrc} />
       </Show>
       <div
-        class="px-4 py-2 ml-2 max-w-full chatbot-host-bubble prose"
+        class="px-4 py-2 ms-2 max-w-full chatbot-host-bubble prose"
         data-testid="host-bubble"
         style={{
           'background-color': props.backgroundColor ?? defaultBackgroundColor,
@@ -96,22 +111,20 @@ export const LeadCaptureBubble = (props: Props) => {
           'font-size': props.fontSize ? `${props.fontSize}px` : `${defaultFontSize}px`,
         }}
       >
-        {props.isLeadSaved || getLocalStorageChatflow(props.chatflowid)?.lead ? (
+        {props.isLeadSaved || getLocalStorageChatflow(props.storageId ?? props.chatflowid, props.chatStorage)?.lead ? (
           <div class="flex flex-col gap-2">
-            <span style={{ 'white-space': 'pre-line' }}>
-              {props.leadsConfig?.successMessage || 'Thank you for submitting your contact information.'}
-            </span>
+            <span style={{ 'white-space': 'pre-line' }}>{props.leadsConfig?.successMessage || props.translations.leadSuccessMessage}</span>
           </div>
         ) : (
           <form class="flex flex-col gap-2" onSubmit={handleLeadCaptureSubmit}>
-            <span style={{ 'white-space': 'pre-line' }}>{props.leadsConfig?.title || 'Let us know where we can reach you:'}</span>
+            <span style={{ 'white-space': 'pre-line' }}>{props.leadsConfig?.title || props.translations.leadTitle}</span>
             <div class="flex flex-col gap-2 w-full">
               {props.leadsConfig?.name && (
                 <div class="w-full flex flex-col items-start justify-start gap-1">
                   <div class={'w-full flex items-center justify-between chatbot-input border border-[#eeeeee]'}>
                     <input
                       class="focus:outline-none bg-transparent px-4 py-4 flex-1 w-full h-full min-h-[56px] max-h-[128px] text-input disabled:opacity-50 disabled:cursor-not-allowed disabled:brightness-100 "
-                      placeholder="Name"
+                      placeholder={props.translations.leadNamePlaceholder}
                       name="name"
                       style={{ width: '100%' }}
                       value={leadName()}
@@ -127,7 +140,7 @@ export const LeadCaptureBubble = (props: Props) => {
                     <input
                       class="focus:outline-none bg-transparent px-4 py-4 flex-1 w-full h-full min-h-[56px] max-h-[128px] text-input disabled:opacity-50 disabled:cursor-not-allowed disabled:brightness-100 "
                       type="email"
-                      placeholder="Email Address"
+                      placeholder={props.translations.leadEmailPlaceholder}
                       name="email"
                       style={{ width: '100%' }}
                       value={leadEmail()}
@@ -143,7 +156,7 @@ export const LeadCaptureBubble = (props: Props) => {
                     <input
                       class="focus:outline-none bg-transparent px-4 py-4 flex-1 w-full h-full min-h-[56px] max-h-[128px] text-input disabled:opacity-50 disabled:cursor-not-allowed disabled:brightness-100 "
                       type="number"
-                      placeholder="Phone Number"
+                      placeholder={props.translations.leadPhonePlaceholder}
                       name="phone"
                       style={{ width: '100%' }}
                       value={leadPhone()}
@@ -154,7 +167,7 @@ export const LeadCaptureBubble = (props: Props) => {
                 </div>
               )}
               <div class="flex items-center justify-end gap-1">
-                <SaveLeadButton buttonColor={props.sendButtonColor} isLoading={isLeadSaving()} />
+                <SaveLeadButton translations={props.translations} buttonColor={props.sendButtonColor} isLoading={isLeadSaving()} />
               </div>
             </div>
           </form>
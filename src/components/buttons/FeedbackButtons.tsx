@@ -1,6 +1,6 @@
-import { JSX, Show } from 'solid-js';
+import { JSX, Match, Show, Switch } from 'solid-js';
 import { Spinner } from './SendButton';
-import { ClipboardIcon, ThumbsDownIcon, ThumbsUpIcon } from '../icons';
+import { ClipboardIcon, PauseIcon, RefreshIcon, SpeakerIcon, StopIcon, ThumbsDownIcon, ThumbsUpIcon } from '../icons';
 
 type RatingButtonProps = {
   feedbackColor?: string;
@@ -22,7 +22,6 @@ export const CopyToClipboardButton = (props: RatingButtonProps) => {
         props.class
       }
       style={{ background: 'transparent', border: 'none' }}
-      title="Copy to clipboard"
     >
       <Show when={!props.isLoading} fallback={<Spinner class="text-white" />}>
         <ClipboardIcon color={props.feedbackColor ?? defaultFeedbackColor} class={'send-icon flex ' + (props.disableIcon ? 'hidden' : '')} />
@@ -42,7 +41,6 @@ export const ThumbsUpButton = (props: RatingButtonProps) => {
         props.class
       }
       style={{ background: 'transparent', border: 'none' }}
-      title="Thumbs Up"
     >
       <Show when={!props.isLoading} fallback={<Spinner class="text-white" />}>
         <ThumbsUpIcon color={props.feedbackColor ?? defaultFeedbackColor} class={'send-icon flex ' + (props.disableIcon ? 'hidden' : '')} />
@@ -62,7 +60,6 @@ export const ThumbsDownButton = (props: RatingButtonProps) => {
         props.class
       }
       style={{ background: 'transparent', border: 'none' }}
-      title="Thumbs Down"
     >
       <Show when={!props.isLoading} fallback={<Spinner class="text-white" />}>
         <ThumbsDownIcon color={props.feedbackColor ?? defaultFeedbackColor} class={'send-icon flex ' + (props.disableIcon ? 'hidden' : '')} />
@@ -70,3 +67,51 @@ export const ThumbsDownButton = (props: RatingButtonProps) => {
     </button>
   );
 };
+
+export const RegenerateButton = (props: RatingButtonProps) => {
+  return (
+    <button
+      type="button"
+      disabled={props.isDisabled || props.isLoading}
+      {...props}
+      class={
+        'p-2 justify-center font-semibold text-white focus:outline-none flex items-center disabled:opacity-50 disabled:cursor-not-allowed disabled:brightness-100 transition-all filter hover:brightness-90 active:brightness-75 chatbot-button ' +
+        props.class
+      }
+      style={{ background: 'transparent', border: 'none' }}
+    >
+      <Show when={!props.isLoading} fallback={<Spinner class="text-white" />}>
+        <RefreshIcon color={props.feedbackColor ?? defaultFeedbackColor} class={'send-icon flex ' + (props.disableIcon ? 'hidden' : '')} />
+      </Show>
+    </button>
+  );
+};
+
+type SpeechAction = 'play' | 'resume' | 'pause' | 'stop';
+
+export const SpeechButton = (props: RatingButtonProps & { speechAction: SpeechAction }) => {
+  return (
+    <button
+      type="button"
+      disabled={props.isDisabled || props.isLoading}
+      {...props}
+      class={
+        'p-2 justify-center font-semibold text-white focus:outline-none flex items-center disabled:opacity-50 disabled:cursor-not-allowed disabled:brightness-100 transition-all filter hover:brightness-90 active:brightness-75 chatbot-button ' +
+        props.class
+      }
+      style={{ background: 'transparent', border: 'none' }}
+    >
+      <Switch>
+        <Match when={props.speechAction === 'pause'}>
+          <PauseIcon color={props.feedbackColor ?? defaultFeedbackColor} />
+        </Match>
+        <Match when={props.speechAction === 'stop'}>
+          <StopIcon color={props.feedbackColor ?? defaultFeedbackColor} width="16" height="16" />
+        </Match>
+        <Match when={props.speechAction === 'play' || props.speechAction === 'resume'}>
+          <SpeakerIcon color={props.feedbackColor ?? defaultFeedbackColor} />
+        </Match>
+      </Switch>
+    </button>
+  );
+};
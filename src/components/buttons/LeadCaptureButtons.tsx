@@ -1,8 +1,10 @@
-import { JSX, Show } from 'solid-js';
+import { JSX, Show, splitProps } from 'solid-js';
 import { Spinner } from '@/components';
 import { SendButton } from '@/components/buttons/SendButton';
+import type { Translations } from '@/i18n';
 
 type LeadCaptureButtonProps = {
+  translations: Translations;
   buttonColor?: string;
   isDisabled?: boolean;
   isLoading?: boolean;
@@ -11,42 +13,44 @@ type LeadCaptureButtonProps = {
 
 // Not being used for now, keep it for future in case we want to allow users to cancel the form
 export const CancelLeadCaptureButton = (props: LeadCaptureButtonProps) => {
+  const [local, others] = splitProps(props, ['translations']);
   return (
     <button
       disabled={props.isDisabled || props.isLoading}
-      {...props}
+      {...others}
       class={
         'h-10 p-2 justify-center font-semibold focus:outline-none flex items-center disabled:opacity-50 disabled:cursor-not-allowed disabled:brightness-100 transition-all filter hover:brightness-90 active:brightness-75 ' +
         props.class
       }
       style={{ background: 'transparent', border: 'none', color: props.buttonColor }}
-      title="Cancel Lead Capture"
+      title={local.translations.cancelLeadCapture}
     >
-      Cancel
+      {local.translations.leadCancel}
     </button>
   );
 };
 
-const SaveLeadFallback = () => {
+const SaveLeadFallback = (props: { label: string }) => {
   return (
     <span class="flex items-center gap-2">
       <Spinner class="text-white" />
-      Saving...
+      {props.label}
     </span>
   );
 };
 
 export const SaveLeadButton = (props: LeadCaptureButtonProps) => {
+  const [local, others] = splitProps(props, ['translations']);
   return (
     <SendButton
       sendButtonColor={props.buttonColor}
       type="submit"
       isDisabled={props.isDisabled || props.isLoading}
       class="m-0 h-14 flex items-center justify-center"
-      {...props}
+      {...others}
     >
-      <Show when={!props.isLoading} fallback={<SaveLeadFallback />}>
-        <span style={{ 'font-family': 'Poppins, sans-serif' }}>Submit</span>
+      <Show when={!props.isLoading} fallback={<SaveLeadFallback label={local.translations.leadSaving} />}>
+        <span style={{ 'font-family': 'Poppins, sans-serif' }}>{local.translations.leadSubmit}</span>
       </Show>
     </SendButton>
   );
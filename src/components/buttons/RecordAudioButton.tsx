@@ -1,6 +1,6 @@
 import { Show } from 'solid-js';
 import { JSX } from 'solid-js/jsx-runtime';
-import { RecordIcon } from '../icons';
+import { HeadphonesIcon, RecordIcon } from '../icons';
 
 type RecordAudioButtonProps = {
   buttonColor?: string;
@@ -28,10 +28,27 @@ export const RecordAudioButton = (props: RecordAudioButtonProps) => {
   );
 };
 
+export const VoiceModeButton = (props: RecordAudioButtonProps) => {
+  return (
+    <button
+      type="button"
+      disabled={props.isDisabled || props.isLoading}
+      {...props}
+      class={
+        'py-2 px-4 justify-center font-semibold focus:outline-none flex items-center disabled:opacity-50 disabled:cursor-not-allowed disabled:brightness-100 transition-all filter hover:brightness-90 active:brightness-75 chatbot-button ' +
+        props.class
+      }
+      style={{ background: 'transparent', border: 'none' }}
+    >
+      <HeadphonesIcon color={props.buttonColor} />
+    </button>
+  );
+};
+
 export const Spinner = (props: JSX.SvgSVGAttributes<SVGSVGElement>) => (
   <svg
     {...props}
-    class={'animate-spin -ml-1 mr-3 h-5 w-5 ' + props.class}
+    class={'animate-spin -ms-1 me-3 h-5 w-5 ' + props.class}
     xmlns="http://www.w3.org/2000/svg"
     fill="none"
     viewBox="0 0 24 24"
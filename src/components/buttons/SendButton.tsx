@@ -22,7 +22,7 @@ export const SendButton = (props: SendButtonProps) => {
       style={{ background: 'transparent', border: 'none' }}
     >
       <Show when={!props.isLoading} fallback={<Spinner class="text-white" />}>
-        <SendIcon color={props.sendButtonColor} class={'send-icon flex ' + (props.disableIcon ? 'hidden' : '')} />
+        <SendIcon color={props.sendButtonColor} class={'send-icon flex rtl:-scale-x-100 ' + (props.disableIcon ? 'hidden' : '')} />
       </Show>
     </button>
   );
@@ -42,7 +42,6 @@ export const DeleteButton = (props: SendButtonProps) => {
         props.class
       }
       style={{ background: 'transparent', border: 'none' }}
-      title="Reset Chat"
     >
       <Show when={!props.isLoading} fallback={<Spinner class="text-white" />}>
         <DeleteIcon color={props.sendButtonColor} class={'send-icon flex ' + (props.disableIcon ? 'hidden' : '')} />
@@ -54,7 +53,7 @@ export const DeleteButton = (props: SendButtonProps) => {
 export const Spinner = (props: JSX.SvgSVGAttributes<SVGSVGElement>) => (
   <svg
     {...props}
-    class={'animate-spin -ml-1 mr-3 h-5 w-5 ' + props.class}
+    class={'animate-spin -ms-1 me-3 h-5 w-5 ' + props.class}
     xmlns="http://www.w3.org/2000/svg"
     fill="none"
     viewBox="0 0 24 24"
@@ -0,0 +1,19 @@
+import { JSX } from 'solid-js/jsx-runtime';
+const defaultButtonColor = '#3B81F6';
+export const DownloadIcon = (props: JSX.SvgSVGAttributes<SVGSVGElement>) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    width={props.width ?? '24'}
+    height={props.height ?? '24'}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke={props.color ?? defaultButtonColor}
+    stroke-width="2"
+    stroke-linecap="round"
+    stroke-linejoin="round"
+  >
+    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+    <path d="m7 10 5 5 5-5" />
+    <path d="M12 15V3" />
+  </svg>
+);
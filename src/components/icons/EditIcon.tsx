@@ -0,0 +1,18 @@
+import { JSX } from 'solid-js/jsx-runtime';
+const defaultButtonColor = '#3B81F6';
+export const EditIcon = (props: JSX.SvgSVGAttributes<SVGSVGElement>) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    width={props.width ?? '24'}
+    height={props.height ?? '24'}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke={props.color ?? defaultButtonColor}
+    stroke-width="2"
+    stroke-linecap="round"
+    stroke-linejoin="round"
+  >
+    <path d="M12 20h9" />
+    <path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z" />
+  </svg>
+);
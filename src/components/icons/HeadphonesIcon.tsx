@@ -0,0 +1,20 @@
+import { JSX } from 'solid-js/jsx-runtime';
+const defaultButtonColor = '#3B81F6';
+export const HeadphonesIcon = (props: JSX.SvgSVGAttributes<SVGSVGElement>) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    width={props.width ?? '24'}
+    height={props.height ?? '24'}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke={props.color ?? defaultButtonColor}
+    stroke-width="2"
+    stroke-linecap="round"
+    stroke-linejoin="round"
+  >
+    <path stroke="none" d="M0 0h24v24H0z" fill="none" />
+    <path d="M4 15a2 2 0 0 1 2 -2h1a2 2 0 0 1 2 2v3a2 2 0 0 1 -2 2h-1a2 2 0 0 1 -2 -2l0 -3" />
+    <path d="M15 15a2 2 0 0 1 2 -2h1a2 2 0 0 1 2 2v3a2 2 0 0 1 -2 2h-1a2 2 0 0 1 -2 -2l0 -3" />
+    <path d="M4 15v-3a8 8 0 0 1 16 0v3" />
+  </svg>
+);
@@ -3,8 +3,8 @@ const defaultButtonColor = '#3B81F6';
 export const TrashIcon = (props: JSX.SvgSVGAttributes<SVGSVGElement>) => (
   <svg
     xmlns="http://www.w3.org/2000/svg"
-    width="24"
-    height="24"
+    width={props.width ?? '24'}
+    height={props.height ?? '24'}
     viewBox="0 0 24 24"
     fill="none"
     stroke={props.color ?? defaultButtonColor}
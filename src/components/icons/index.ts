@@ -11,3 +11,12 @@ export * from './XIcon';
 export * from './TickIcon';
 export * from './AttachmentIcon';
 export * from './SparklesIcon';
+export * from './StopIcon';
+export * from './MessagesIcon';
+export * from './EditIcon';
+export * from './PlusIcon';
+export * from './DownloadIcon';
+export * from './RefreshIcon';
+export * from './SpeakerIcon';
+export * from './PauseIcon';
+export * from './HeadphonesIcon';
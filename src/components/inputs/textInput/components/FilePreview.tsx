@@ -5,6 +5,7 @@ type CardWithDeleteOverlayProps = {
   item: { name: string };
   disabled?: boolean;
   onDelete: (item: { name: string }) => void;
+  deleteTitle?: string;
 };
 
 export const FilePreview = (props: CardWithDeleteOverlayProps) => {
@@ -29,14 +30,14 @@ export const FilePreview = (props: CardWithDeleteOverlayProps) => {
         } ${isHovered() ? 'bg-[rgba(0,0,0,0.3)]' : `bg-[${defaultBackgroundColor}]`} border border-gray-300 rounded-md`}
       >
         <AttachmentIcon color="#303235" class={`transition-filter duration-300 ${isHovered() ? 'blur-[2px]' : 'blur-none'}`} />
-        <span class={`ml-1.5 'text-inherit transition-filter duration-300 ${isHovered() ? 'blur-[2px]' : 'blur-none'}`}>{props.item.name}</span>
+        <span class={`ms-1.5 'text-inherit transition-filter duration-300 ${isHovered() ? 'blur-[2px]' : 'blur-none'}`}>{props.item.name}</span>
       </div>
       {isHovered() && !props.disabled && (
         <button
           disabled={props.disabled}
           onClick={() => props.onDelete(props.item)}
           class="absolute top-0 left-0 right-0 bottom-0 bg-transparent hover:bg-transparent flex items-center justify-center"
-          title="Remove attachment"
+          title={props.deleteTitle ?? 'Remove attachment'}
         >
           <TrashIcon color="white" />
         </button>
@@ -0,0 +1,52 @@
+import { onCleanup, onMount } from 'solid-js';
+import { createLevelMeter } from '@/utils/voiceActivity';
+
+type RecordingWaveformProps = {
+  stream: MediaStream;
+  isPaused?: boolean;
+  color?: string;
+};
+
+const barCount = 48;
+const barGap = 2;
+const sampleInterval = 80;
+const defaultColor = '#3B81F6';
+
+/**
+ * Scrolling bars of the microphone level while recording, the newest on the right. The bars stand still while paused.
+ */
+export const RecordingWaveform = (props: RecordingWaveformProps) => {
+  let canvasEl: HTMLCanvasElement | undefined;
+  const levels: number[] = new Array(barCount).fill(0);
+
+  const draw = () => {
+    const context = canvasEl?.getContext('2d');
+    if (!canvasEl || !context) return;
+    const width = (canvasEl.width = canvasEl.clientWidth * window.devicePixelRatio);
+    const height = (canvasEl.height = canvasEl.clientHeight * window.devicePixelRatio);
+    const barWidth = width / barCount - barGap;
+    context.clearRect(0, 0, width, height);
+    context.fillStyle = props.color ?? defaultColor;
+    levels.forEach((level, i) => {
+      // speech rarely gets near the full scale of the microphone
+      const barHeight = Math.max(2, Math.min(1, level * 6) * height);
+      context.fillRect(i * (barWidth + barGap), (height - barHeight) / 2, barWidth, barHeight);
+    });
+  };
+
+  onMount(() => {
+    const levelMeter = createLevelMeter(props.stream);
+    const timer = setInterval(() => {
+      if (props.isPaused) return;
+      levels.shift();
+      levels.push(levelMeter.getLevel());
+      draw();
+    }, sampleInterval);
+    onCleanup(() => {
+      clearInterval(timer);
+      levelMeter.close();
+    });
+  });
+
+  return <canvas ref={canvasEl} class="w-full h-8" aria-hidden="true" />;
+};
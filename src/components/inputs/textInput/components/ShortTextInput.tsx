@@ -1,17 +1,19 @@
 import { createSignal, splitProps } from 'solid-js';
 import { JSX } from 'solid-js/jsx-runtime';
+import { detectTextDirection } from '@/utils/languageChunks';
 
 type ShortTextInputProps = {
   ref: HTMLInputElement | HTMLTextAreaElement | undefined;
   onInput: (value: string) => void;
   fontSize?: number;
   disabled?: boolean;
+  direction?: 'ltr' | 'rtl'; // Used until the user types a letter, then the text sets the direction
 } & Omit<JSX.TextareaHTMLAttributes<HTMLTextAreaElement>, 'onInput'>;
 
 const DEFAULT_HEIGHT = 56;
 
 export const ShortTextInput = (props: ShortTextInputProps) => {
-  const [local, others] = splitProps(props, ['ref', 'onInput']);
+  const [local, others] = splitProps(props, ['ref', 'onInput', 'direction']);
   const [height, setHeight] = createSignal(56);
 
   // @ts-expect-error: unknown type
@@ -44,6 +46,7 @@ export const ShortTextInput = (props: ShortTextInputProps) => {
       ref={props.ref}
       class="focus:outline-none bg-transparent px-4 py-4 flex-1 w-full h-full min-h-[56px] max-h-[128px] text-input disabled:opacity-50 disabled:cursor-not-allowed disabled:brightness-100 "
       disabled={props.disabled}
+      dir={detectTextDirection(String(props.value ?? '')) ?? local.direction}
       style={{
         'font-size': props.fontSize ? `${props.fontSize}px` : '16px',
         resize: 'none',
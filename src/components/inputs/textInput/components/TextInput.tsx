@@ -2,13 +2,18 @@ import { ShortTextInput } from './ShortTextInput';
 import { isMobile } from '@/utils/isMobileSignal';
 import { Show, createSignal, createEffect, onMount, Setter } from 'solid-js';
 import { SendButton } from '@/components/buttons/SendButton';
+import { StopButton } from '@/components/buttons/StopButton';
 import { FileEvent, UploadsConfig } from '@/components/Bot';
 import { ImageUploadButton } from '@/components/buttons/ImageUploadButton';
-import { RecordAudioButton } from '@/components/buttons/RecordAudioButton';
+import { RecordAudioButton, VoiceModeButton } from '@/components/buttons/RecordAudioButton';
 import { AttachmentUploadButton } from '@/components/buttons/AttachmentUploadButton';
 import { ChatInputHistory } from '@/utils/chatInputHistory';
+import type { ChatStorage } from '@/utils/chatStorage';
+import { formatTranslation, Translations } from '@/i18n';
 
 type TextInputProps = {
+  translations: Translations;
+  direction?: 'ltr' | 'rtl';
   placeholder?: string;
   backgroundColor?: string;
   textColor?: string;
@@ -22,6 +27,7 @@ type TextInputProps = {
   isFullFileUpload?: boolean;
   setPreviews: Setter<unknown[]>;
   onMicrophoneClicked: () => void;
+  onVoiceModeClicked?: () => void;
   handleFileChange: (event: FileEvent<HTMLInputElement>) => void;
   maxChars?: number;
   maxCharsWarningMessage?: string;
@@ -30,6 +36,10 @@ type TextInputProps = {
   sendSoundLocation?: string;
   enableInputHistory?: boolean;
   maxHistorySize?: number;
+  inputHistoryKey?: string;
+  storage?: ChatStorage;
+  isLoading?: boolean;
+  onStop?: () => void;
 };
 
 const defaultBackgroundColor = '#ffffff';
@@ -40,7 +50,8 @@ const defaultSendSound = 'https://cdn.jsdelivr.net/gh/FlowiseAI/FlowiseChatEmbed
 export const TextInput = (props: TextInputProps) => {
   const [isSendButtonDisabled, setIsSendButtonDisabled] = createSignal(false);
   const [warningMessage, setWarningMessage] = createSignal('');
-  const [inputHistory] = createSignal(new ChatInputHistory(() => props.maxHistorySize || 10));
+  // eslint-disable-next-line solid/reactivity
+  const [inputHistory] = createSignal(new ChatInputHistory(() => props.maxHistorySize || 10, props.storage ?? localStorage, props.inputHistoryKey));
   let inputRef: HTMLInputElement | HTMLTextAreaElement | undefined;
   let fileUploadRef: HTMLInputElement | HTMLTextAreaElement | undefined;
   let imgUploadRef: HTMLInputElement | HTMLTextAreaElement | undefined;
@@ -50,7 +61,7 @@ export const TextInput = (props: TextInputProps) => {
     const wordCount = inputValue.length;
 
     if (props.maxChars && wordCount > props.maxChars) {
-      setWarningMessage(props.maxCharsWarningMessage ?? `You exceeded the characters limit. Please input less than ${props.maxChars} characters.`);
+      setWarningMessage(props.maxCharsWarningMessage ?? formatTranslation(props.translations.maxCharsWarning, { maxChars: props.maxChars }));
       setIsSendButtonDisabled(true);
       return;
     }
@@ -204,9 +215,10 @@ export const TextInput = (props: TextInputProps) => {
           ref={inputRef as HTMLTextAreaElement}
           onInput={handleInput}
           value={props.inputValue}
+          direction={props.direction}
           fontSize={props.fontSize}
           disabled={props.disabled}
-          placeholder={props.placeholder ?? 'Type your question'}
+          placeholder={props.placeholder ?? props.translations.inputPlaceholder}
         />
         {props.uploadsConfig?.isSpeechToTextEnabled ? (
           <RecordAudioButton
@@ -219,15 +231,36 @@ export const TextInput = (props: TextInputProps) => {
             <span style={{ 'font-family': 'Poppins, sans-serif' }}>Record Audio</span>
           </RecordAudioButton>
         ) : null}
-        <SendButton
-          sendButtonColor={props.sendButtonColor}
-          type="button"
-          isDisabled={props.disabled || isSendButtonDisabled()}
-          class="m-0 h-14 flex items-center justify-center"
-          on:click={submit}
+        <Show when={props.uploadsConfig?.isSpeechToTextEnabled && props.onVoiceModeClicked}>
+          <VoiceModeButton
+            buttonColor={props.sendButtonColor}
+            class="m-0 h-14 flex items-center justify-center"
+            isDisabled={props.disabled}
+            title={props.translations.startVoiceMode}
+            on:click={props.onVoiceModeClicked}
+          />
+        </Show>
+        <Show
+          when={props.isLoading && props.onStop}
+          fallback={
+            <SendButton
+              sendButtonColor={props.sendButtonColor}
+              type="button"
+              isDisabled={props.disabled || isSendButtonDisabled()}
+              class="m-0 h-14 flex items-center justify-center"
+              on:click={submit}
+            >
+              <span style={{ 'font-family': 'Poppins, sans-serif' }}>Send</span>
+            </SendButton>
+          }
         >
-          <span style={{ 'font-family': 'Poppins, sans-serif' }}>Send</span>
-        </SendButton>
+          <StopButton
+            buttonColor={props.sendButtonColor}
+            class="m-0 h-14 flex items-center justify-center"
+            title={props.translations.stopGenerating}
+            on:click={() => props.onStop?.()}
+          />
+        </Show>
       </div>
     </div>
   );
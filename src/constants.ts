@@ -7,4 +7,11 @@ export const defaultBotProps: BubbleProps = {
   chatflowConfig: undefined,
   theme: undefined,
   observersConfig: undefined,
+  instanceId: undefined,
+  storage: undefined,
+  chatId: undefined,
+  restoreHistory: undefined,
+  chatIdSignature: undefined,
+  locale: undefined,
+  direction: undefined,
 };
@@ -1,17 +1,20 @@
-import { createSignal, Show, splitProps, onCleanup, createEffect } from 'solid-js';
+import { createSignal, Show, splitProps, onCleanup, createEffect, createMemo } from 'solid-js';
 import styles from '../../../assets/index.css';
 import { BubbleButton } from './BubbleButton';
 import { BubbleParams } from '../types';
 import { Bot, BotProps } from '../../../components/Bot';
 import Tooltip from './Tooltip';
 import { getBubbleButtonSize } from '@/utils';
+import { createBotControlsQueue, WidgetElement } from '@/utils/botControls';
+import { createWidgetEventEmitter } from '@/utils/widgetEvents';
+import { resolveDirection, resolveTranslations } from '@/i18n';
 
 const defaultButtonColor = '#3B81F6';
 const defaultIconColor = 'white';
 
 export type BubbleProps = BotProps & BubbleParams;
 
-export const Bubble = (props: BubbleProps) => {
+export const Bubble = (props: BubbleProps, { element }: { element: WidgetElement }) => {
   const [bubbleProps] = splitProps(props, ['theme']);
 
   const [isBotOpened, setIsBotOpened] = createSignal(false);
@@ -21,21 +24,49 @@ export const Bubble = (props: BubbleProps) => {
     right: bubbleProps.theme?.button?.right ?? 20,
   });
 
+  const emitEvent = createWidgetEventEmitter(element);
+  const translations = createMemo(() => resolveTranslations(props.locale, bubbleProps.theme?.translations));
+  // right to left sites get the button and the chat window on the left
+  const direction = createMemo(() => resolveDirection(props.direction, props.locale));
+  const side = () => (direction() === 'rtl' ? 'left' : 'right');
+
   const openBot = () => {
     if (!isBotStarted()) setIsBotStarted(true);
+    if (isBotOpened()) return;
     setIsBotOpened(true);
+    emitEvent('chat:open', { chatflowid: props.chatflowid });
   };
 
   const closeBot = () => {
+    if (!isBotOpened()) return;
     setIsBotOpened(false);
+    emitEvent('chat:close', { chatflowid: props.chatflowid });
   };
 
   const toggleBot = () => {
     isBotOpened() ? closeBot() : openBot();
   };
 
+  const botControls = createBotControlsQueue();
+
+  element.widgetControls = {
+    open: openBot,
+    close: closeBot,
+    toggle: toggleBot,
+    sendMessage: (text, uploads) => {
+      openBot();
+      botControls.run((controls) => controls.sendMessage(text, uploads));
+    },
+    clearChat: () => botControls.run((controls) => controls.clearChat()),
+    importConversation: (transcript) => {
+      openBot();
+      return botControls.run((controls) => controls.importConversation(transcript));
+    },
+  };
+
   onCleanup(() => {
     setIsBotStarted(false);
+    delete element.widgetControls;
   });
 
   const buttonSize = getBubbleButtonSize(props.theme?.button?.size); // Default to 48px if size is not provided
@@ -66,7 +97,8 @@ export const Bubble = (props: BubbleProps) => {
         showTooltip={showTooltip && !isBotOpened()}
         position={buttonPosition()}
         buttonSize={buttonSize}
-        tooltipMessage={bubbleProps.theme?.tooltip?.tooltipMessage}
+        direction={direction()}
+        tooltipMessage={bubbleProps.theme?.tooltip?.tooltipMessage ?? translations().tooltipMessage}
         tooltipBackgroundColor={bubbleProps.theme?.tooltip?.tooltipBackgroundColor}
         tooltipTextColor={bubbleProps.theme?.tooltip?.tooltipTextColor}
         tooltipFontSize={bubbleProps.theme?.tooltip?.tooltipFontSize} // Set the tooltip font size
@@ -76,6 +108,7 @@ export const Bubble = (props: BubbleProps) => {
         toggleBot={toggleBot}
         isBotOpened={isBotOpened()}
         setButtonPosition={setButtonPosition}
+        direction={direction()}
         dragAndDrop={bubbleProps.theme?.button?.dragAndDrop ?? false}
         autoOpen={bubbleProps.theme?.button?.autoWindowOpen?.autoOpen ?? false}
         openDelay={bubbleProps.theme?.button?.autoWindowOpen?.openDelay}
@@ -83,11 +116,12 @@ export const Bubble = (props: BubbleProps) => {
       />
       <div
         part="bot"
+        dir={direction()}
         style={{
           height: bubbleProps.theme?.chatWindow?.height ? `${bubbleProps.theme?.chatWindow?.height.toString()}px` : 'calc(100% - 150px)',
           width: bubbleProps.theme?.chatWindow?.width ? `${bubbleProps.theme?.chatWindow?.width.toString()}px` : undefined,
           transition: 'transform 200ms cubic-bezier(0, 1.2, 1, 1), opacity 150ms ease-out',
-          'transform-origin': 'bottom right',
+          'transform-origin': `bottom ${side()}`,
           transform: isBotOpened() ? 'scale3d(1, 1, 1)' : 'scale3d(0, 0, 1)',
           'box-shadow': 'rgb(0 0 0 / 16%) 0px 5px 40px',
           'background-color': bubbleProps.theme?.chatWindow?.backgroundColor || '#ffffff',
@@ -97,10 +131,10 @@ export const Bubble = (props: BubbleProps) => {
           'background-repeat': 'no-repeat',
           'z-index': 42424242,
           bottom: `${Math.min(buttonPosition().bottom + buttonSize + 10, window.innerHeight - chatWindowBottom)}px`,
-          right: `${Math.max(0, Math.min(buttonPosition().right, window.innerWidth - (bubbleProps.theme?.chatWindow?.width ?? 410) - 10))}px`,
+          [side()]: `${Math.max(0, Math.min(buttonPosition().right, window.innerWidth - (bubbleProps.theme?.chatWindow?.width ?? 410) - 10))}px`,
         }}
         class={
-          `fixed sm:right-5 rounded-lg w-full sm:w-[400px] max-h-[704px]` +
+          `fixed ${direction() === 'rtl' ? 'sm:left-5' : 'sm:right-5'} rounded-lg w-full sm:w-[400px] max-h-[704px]` +
           (isBotOpened() ? ' opacity-1' : ' opacity-0 pointer-events-none') +
           ` bottom-${chatWindowBottom}px`
         }
@@ -111,8 +145,8 @@ export const Bubble = (props: BubbleProps) => {
               {/* Cross button For only mobile screen use this <Show when={isBotOpened() && window.innerWidth <= 640}>  */}
               <button
                 onClick={closeBot}
-                class="py-2 pr-3 absolute top-0 right-[-8px] m-[6px] bg-transparent text-white rounded-full z-50 disabled:opacity-50 disabled:cursor-not-allowed disabled:brightness-100 transition-all filter hover:brightness-90 active:brightness-75"
-                title="Close Chat"
+                class="py-2 pe-3 absolute top-0 end-[-8px] m-[6px] bg-transparent text-white rounded-full z-50 disabled:opacity-50 disabled:cursor-not-allowed disabled:brightness-100 transition-all filter hover:brightness-90 active:brightness-75"
+                title={translations().closeChat}
               >
                 <svg viewBox="0 0 24 24" width="24" height="24">
                   <path
@@ -148,12 +182,26 @@ export const Bubble = (props: BubbleProps) => {
               chatflowConfig={props.chatflowConfig}
               apiHost={props.apiHost}
               onRequest={props.onRequest}
+              instanceId={props.instanceId}
+              storage={props.storage}
+              chatId={props.chatId}
+              restoreHistory={props.restoreHistory}
+              chatIdSignature={props.chatIdSignature}
+              locale={props.locale}
+              direction={props.direction}
+              translations={props.theme?.translations}
               observersConfig={props.observersConfig}
               clearChatOnReload={bubbleProps.theme?.chatWindow?.clearChatOnReload}
               disclaimer={bubbleProps.theme?.disclaimer}
               dateTimeToggle={bubbleProps.theme?.chatWindow?.dateTimeToggle}
               renderHTML={props.theme?.chatWindow?.renderHTML}
+              network={props.theme?.chatWindow?.network}
+              textToSpeech={props.theme?.chatWindow?.textToSpeech}
+              voiceMode={props.theme?.chatWindow?.voiceMode}
+              showConversations={props.theme?.chatWindow?.showConversations}
               closeBot={closeBot}
+              registerControls={botControls.register}
+              emitEvent={emitEvent}
             />
           </div>
         </Show>
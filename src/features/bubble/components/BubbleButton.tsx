@@ -7,6 +7,7 @@ type Props = ButtonTheme & {
   toggleBot: () => void;
   setButtonPosition: (position: { bottom: number; right: number }) => void;
   dragAndDrop: boolean;
+  direction?: 'ltr' | 'rtl'; // 'rtl' places the button on the left, `right` is then measured from the left edge
   autoOpen?: boolean; // Optional parameter to control automatic window opening
   openDelay?: number; // Optional parameter for delay time in seconds
   autoOpenOnMobile?: boolean; // Optional parameter for opening on mobile
@@ -42,7 +43,7 @@ export const BubbleButton = (props: Props) => {
   };
 
   const onMouseMove = (e: MouseEvent) => {
-    const deltaX = dragStartX - e.clientX;
+    const deltaX = props.direction === 'rtl' ? e.clientX - dragStartX : dragStartX - e.clientX;
     const newRight = initialRight + deltaX;
 
     const screenWidth = window.innerWidth;
@@ -93,7 +94,7 @@ export const BubbleButton = (props: Props) => {
         style={{
           'background-color': props.backgroundColor ?? defaultButtonColor,
           'z-index': 42424242,
-          right: `${position().right}px`,
+          [props.direction === 'rtl' ? 'left' : 'right']: `${position().right}px`,
           bottom: `${position().bottom}px`,
           width: `${buttonSize}px`,
           height: `${buttonSize}px`,
@@ -9,6 +9,7 @@ type TooltipProps = {
   showTooltip: boolean;
   position: { bottom: number; right: number };
   buttonSize: number;
+  direction?: 'ltr' | 'rtl';
   tooltipMessage?: string;
   tooltipBackgroundColor?: string;
   tooltipTextColor?: string;
@@ -47,7 +48,7 @@ const Tooltip = (props: TooltipProps) => {
       <div
         class="tooltip"
         style={{
-          right: `calc(${props.position.right}px + 20px)`,
+          [props.direction === 'rtl' ? 'left' : 'right']: `calc(${props.position.right}px + 20px)`,
           bottom: `${props.position.bottom + props.buttonSize + 10}px`,
           '--tooltip-background-color': backgroundColor,
           '--tooltip-text-color': textColor,
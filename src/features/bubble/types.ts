@@ -1,3 +1,7 @@
+import type { TranslationOverrides } from '@/i18n';
+import type { ChunkLanguage } from '@/utils/languageChunks';
+import type { TextToSpeechProvider } from '@/utils/textToSpeech';
+
 export type BubbleParams = {
   theme?: BubbleTheme;
 };
@@ -8,6 +12,7 @@ export type BubbleTheme = {
   tooltip?: ToolTipTheme;
   disclaimer?: DisclaimerPopUpTheme;
   customCSS?: string;
+  translations?: TranslationOverrides; // Replace any UI string, per locale
 };
 
 export type TextInputTheme = {
@@ -22,6 +27,8 @@ export type TextInputTheme = {
   sendSoundLocation?: string;
   receiveMessageSound?: boolean;
   receiveSoundLocation?: string;
+  maxRecordingDuration?: number; // Seconds after which an audio recording stops and is kept for review, defaults to 3600
+  minRecordingDuration?: number; // Seconds an audio recording has to last before it can be stopped, defaults to 0
 };
 
 export type UserMessageTheme = {
@@ -76,6 +83,10 @@ export type ChatWindowTheme = {
   clearChatOnReload?: boolean;
   dateTimeToggle?: DateTimeToggleTheme;
   renderHTML?: boolean;
+  network?: NetworkTheme;
+  textToSpeech?: TextToSpeechTheme;
+  voiceMode?: VoiceModeTheme;
+  showConversations?: boolean; // Keep several conversations and switch between them from a list
 };
 
 export type ButtonTheme = {
@@ -120,3 +131,27 @@ export type DateTimeToggleTheme = {
   date?: boolean;
   time?: boolean;
 };
+
+export type NetworkTheme = {
+  maxRetries?: number; // Number of reconnect attempts when the response stream drops, defaults to 3
+  retryDelay?: number; // Initial backoff in milliseconds, doubled on each attempt, defaults to 1000
+  maxRetryDelay?: number; // Upper bound of the backoff in milliseconds, defaults to 10000
+  fallbackToNonStreaming?: boolean; // Request the full response without streaming once retries run out, defaults to true
+};
+
+export type TextToSpeechTheme = {
+  enabled?: boolean; // Show a button on bot answers to read them aloud
+  autoRead?: boolean; // Read each new answer aloud once it is complete
+  rate?: number; // Initial speed, defaults to 1
+  voices?: Partial<Record<ChunkLanguage, string>>; // Web Speech voice name per language, e.g. { 'ar-XA': 'Maged' }
+  endpoint?: string; // TTS service to use instead of the browser voices, sent { text, language, rate } and returning audio
+  provider?: TextToSpeechProvider; // Custom provider, takes precedence over endpoint
+};
+
+export type VoiceModeTheme = {
+  enabled?: boolean; // Show a button for a hands-free voice conversation, needs speech to text in the chatflow
+  autoStart?: boolean; // Start the voice conversation as soon as the chat opens, e.g. on a kiosk
+  speechThreshold?: number; // Microphone level from 0 to 1 taken as speech, defaults to 0.02
+  silenceDuration?: number; // Milliseconds of silence that end what the user says, defaults to 1500
+  noSpeechTimeout?: number; // Milliseconds to wait for the user to speak before the microphone is armed again, defaults to 15000
+};
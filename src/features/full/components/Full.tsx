@@ -2,16 +2,20 @@ import styles from '../../../assets/index.css';
 import { Bot, BotProps } from '@/components/Bot';
 import { BubbleParams } from '@/features/bubble/types';
 import { createSignal, onCleanup, onMount, Show } from 'solid-js';
+import { createBotControlsQueue, WidgetElement } from '@/utils/botControls';
+import { createWidgetEventEmitter } from '@/utils/widgetEvents';
 
 const defaultButtonColor = '#3B81F6';
 const defaultIconColor = 'white';
 
 export type FullProps = BotProps & BubbleParams;
 
-export const Full = (props: FullProps, { element }: { element: HTMLElement }) => {
+export const Full = (props: FullProps, { element }: { element: WidgetElement }) => {
   const [isBotDisplayed, setIsBotDisplayed] = createSignal(false);
+  const emitEvent = createWidgetEventEmitter(element);
 
   const launchBot = () => {
+    if (!isBotDisplayed()) emitEvent('chat:open', { chatflowid: props.chatflowid });
     setIsBotDisplayed(true);
     document.body.style.margin = '0'; // Ensure no margin
     document.documentElement.style.padding = '0'; // Ensure no padding
@@ -23,16 +27,40 @@ export const Full = (props: FullProps, { element }: { element: HTMLElement }) =>
     }
   };
 
+  const closeBot = () => {
+    if (!isBotDisplayed()) return;
+    setIsBotDisplayed(false);
+    emitEvent('chat:close', { chatflowid: props.chatflowid });
+  };
+
   const botLauncherObserver = new IntersectionObserver((intersections) => {
     if (intersections.some((intersection) => intersection.isIntersecting)) launchBot();
   });
 
+  const botControls = createBotControlsQueue();
+
+  element.widgetControls = {
+    open: launchBot,
+    close: () => closeBot(),
+    toggle: () => (isBotDisplayed() ? closeBot() : launchBot()),
+    sendMessage: (text, uploads) => {
+      launchBot();
+      botControls.run((controls) => controls.sendMessage(text, uploads));
+    },
+    clearChat: () => botControls.run((controls) => controls.clearChat()),
+    importConversation: (transcript) => {
+      launchBot();
+      return botControls.run((controls) => controls.importConversation(transcript));
+    },
+  };
+
   onMount(() => {
     botLauncherObserver.observe(element);
   });
 
   onCleanup(() => {
     botLauncherObserver.disconnect();
+    delete element.widgetControls;
     document.body.style.margin = ''; // Reset margin
     document.documentElement.style.padding = ''; // Reset padding
 
@@ -83,6 +111,14 @@ export const Full = (props: FullProps, { element }: { element: HTMLElement }) =>
             chatflowConfig={props.chatflowConfig}
             apiHost={props.apiHost}
             onRequest={props.onRequest}
+            instanceId={props.instanceId}
+            storage={props.storage}
+            chatId={props.chatId}
+            restoreHistory={props.restoreHistory}
+            chatIdSignature={props.chatIdSignature}
+            locale={props.locale}
+            direction={props.direction}
+            translations={props.theme?.translations}
             isFullPage={true}
             observersConfig={props.observersConfig}
             starterPromptFontSize={props.theme?.chatWindow?.starterPromptFontSize}
@@ -90,6 +126,12 @@ export const Full = (props: FullProps, { element }: { element: HTMLElement }) =>
             disclaimer={props.theme?.disclaimer}
             dateTimeToggle={props.theme?.chatWindow?.dateTimeToggle}
             renderHTML={props.theme?.chatWindow?.renderHTML}
+            network={props.theme?.chatWindow?.network}
+            textToSpeech={props.theme?.chatWindow?.textToSpeech}
+            voiceMode={props.theme?.chatWindow?.voiceMode}
+            showConversations={props.theme?.chatWindow?.showConversations}
+            registerControls={botControls.register}
+            emitEvent={emitEvent}
           />
         </div>
       </Show>
@@ -64,7 +64,7 @@ export const DisclaimerPopup = (props: DisclaimerPopupProps) => {
             }
           />
 
-          <div class="flex justify-center space-x-4">
+          <div class="flex justify-center gap-4">
             <button
               class="font-bold py-2 px-6 rounded focus:outline-none focus:shadow-outline"
               style={{ background: popupProps.buttonColor || '#3b82f6', color: popupProps.buttonTextColor || 'white' }}
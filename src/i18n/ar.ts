@@ -0,0 +1,117 @@
+import type { Translations } from './en';
+
+export const ar: Translations = {
+  // chat
+  welcomeMessage: 'مرحبًا! كيف يمكنني مساعدتك؟',
+  inputPlaceholder: 'اكتب سؤالك',
+  errorMessage: 'عذرًا! يبدو أن هناك خطأ. يرجى المحاولة مرة أخرى.',
+  tooManyRequests: 'طلبات كثيرة جدًا. يرجى المحاولة لاحقًا.',
+  uploadFailed: 'تعذر رفع المستندات',
+  maxCharsWarning: 'لقد تجاوزت الحد المسموح به من الأحرف. يرجى إدخال أقل من {maxChars} حرفًا.',
+  responseStopped: 'تم إيقاف الرد',
+  reconnecting: 'انقطع الاتصال، جارٍ إعادة الاتصال…',
+  storageFull: 'تعذّر حفظ هذه المحادثة على هذا الجهاز، وقد تُفقد عند إعادة تحميل الصفحة.',
+  pendingMessage: 'قيد الانتظار، سيتم الإرسال عند عودة الاتصال',
+  unauthorized: 'غير مصرّح',
+  unauthenticated: 'لم تتم المصادقة',
+  agentMessages: 'رسائل الوكيل',
+  agentFinished: 'انتهى',
+  stopGenerating: 'إيقاف الإنشاء',
+  removeAttachment: 'إزالة المرفق',
+  poweredBy: 'مدعوم من',
+  closeChat: 'إغلاق المحادثة',
+  tooltipMessage: 'مرحبًا 👋!',
+  dropToUpload: 'أفلت الملفات هنا لرفعها',
+  maxUploadSize: 'الحجم الأقصى المسموح به: {maxUploadSize} ميغابايت',
+  followUpPrompts: 'جرّب هذه الأسئلة',
+
+  // message actions
+  copyToClipboard: 'نسخ إلى الحافظة',
+  thumbsUp: 'أعجبني',
+  thumbsDown: 'لم يعجبني',
+  regenerate: 'إعادة الإنشاء',
+  editMessage: 'تعديل',
+  previousVersion: 'الإصدار السابق',
+  nextVersion: 'الإصدار التالي',
+  copyCode: 'نسخ الشيفرة',
+  downloadCode: 'تنزيل',
+  toggleLineWrapping: 'تبديل التفاف الأسطر',
+  copied: 'تم النسخ!',
+  cancelEdit: 'إلغاء',
+  sendEdit: 'إرسال',
+
+  // feedback
+  feedbackTitle: 'قدّم ملاحظات إضافية',
+  feedbackPlaceholder: 'ما رأيك في هذا الرد؟',
+  feedbackSubmit: 'إرسال الملاحظات',
+
+  // lead capture
+  leadTitle: 'أخبرنا كيف يمكننا التواصل معك:',
+  leadSuccessMessage: 'شكرًا لك على إرسال معلومات الاتصال الخاصة بك.',
+  leadNamePlaceholder: 'الاسم',
+  leadEmailPlaceholder: 'البريد الإلكتروني',
+  leadPhonePlaceholder: 'رقم الهاتف',
+  leadNameTooShort: 'الاسم قصير جدًا',
+  leadInvalidEmail: 'يرجى إدخال بريد إلكتروني صالح',
+  leadPhoneTooShort: 'رقم الهاتف قصير جدًا',
+  leadInvalidPhone: 'رقم غير صالح!',
+  leadSubmit: 'إرسال',
+  leadSaving: 'جارٍ الحفظ...',
+  leadCancel: 'إلغاء',
+  cancelLeadCapture: 'إلغاء نموذج التواصل',
+
+  // disclaimer
+  disclaimerTitle: 'إخلاء المسؤولية',
+  disclaimerMessage: 'باستخدامك لهذا المساعد، فإنك توافق على <a target="_blank" href="https://flowiseai.com/terms">الشروط والأحكام</a>.',
+  disclaimerAccept: 'ابدأ المحادثة',
+  disclaimerDeny: 'إلغاء',
+
+  // conversations and transcripts
+  conversations: 'المحادثات',
+  newConversation: 'محادثة جديدة',
+  renameConversation: 'إعادة التسمية',
+  deleteConversation: 'حذف',
+  close: 'إغلاق',
+  clearChat: 'إعادة تعيين المحادثة',
+  transcriptMenu: 'تصدير المحادثة أو استيرادها',
+  exportMarkdown: 'Markdown (.md)',
+  exportJson: 'JSON (.json)',
+  exportText: 'نص عادي (.txt)',
+  exportPrint: 'طباعة…',
+  importTranscript: 'استيراد JSON…',
+  importFailed: 'تعذّر استيراد المحادثة.',
+  importOtherChatflow: 'تم تصدير هذه المحادثة من روبوت دردشة آخر.',
+  transcriptTitle: 'محادثة',
+  transcriptUser: 'المستخدم',
+  transcriptBot: 'الروبوت',
+  transcriptAgent: 'الوكيل',
+  transcriptChatId: 'معرّف المحادثة',
+  transcriptExported: 'تم التصدير',
+  transcriptAttachments: 'المرفقات',
+  transcriptToolsUsed: 'الأدوات المستخدمة',
+  transcriptSources: 'المصادر',
+
+  // audio recording
+  recordingNotSupported: 'لتسجيل الصوت، استخدم متصفحًا حديثًا مثل Chrome أو Firefox يدعم التسجيل الصوتي.',
+  recordingNotSupportedConfirm: 'حسنًا',
+  recordingProcessing: 'جارٍ المعالجة…',
+  pauseRecording: 'إيقاف التسجيل مؤقتًا',
+  resumeRecording: 'استئناف التسجيل',
+  stopRecording: 'إنهاء التسجيل ومراجعته',
+  cancelRecording: 'تجاهل التسجيل',
+  recordingTooShort: 'استمر في التسجيل قليلًا',
+
+  // text to speech and voice mode
+  readAloud: 'قراءة بصوت عالٍ',
+  resumeReading: 'استئناف القراءة',
+  pauseReading: 'إيقاف القراءة مؤقتًا',
+  stopReading: 'إيقاف القراءة',
+  readingSpeed: 'سرعة القراءة',
+  startVoiceMode: 'بدء محادثة صوتية',
+  voiceMode: 'محادثة صوتية',
+  endVoiceMode: 'إنهاء المحادثة الصوتية',
+  voiceListening: 'أستمع…',
+  voiceThinking: 'أفكر…',
+  voiceSpeaking: 'أتحدث…',
+  stopSpeaking: 'توقف عن التحدث',
+};
@@ -0,0 +1,118 @@
+import type { Translations } from './en';
+
+export const de: Translations = {
+  // chat
+  welcomeMessage: 'Hallo! Wie kann ich helfen?',
+  inputPlaceholder: 'Stellen Sie Ihre Frage',
+  errorMessage: 'Hoppla! Da ist etwas schiefgelaufen. Bitte versuchen Sie es erneut.',
+  tooManyRequests: 'Zu viele Anfragen. Bitte versuchen Sie es später erneut.',
+  uploadFailed: 'Die Dokumente konnten nicht hochgeladen werden',
+  maxCharsWarning: 'Sie haben das Zeichenlimit überschritten. Bitte geben Sie weniger als {maxChars} Zeichen ein.',
+  responseStopped: 'Antwort angehalten',
+  reconnecting: 'Verbindung unterbrochen, verbinde erneut…',
+  storageFull: 'Dieser Chat konnte auf diesem Gerät nicht gespeichert werden und geht beim Neuladen der Seite möglicherweise verloren.',
+  pendingMessage: 'Ausstehend, wird gesendet, sobald Sie wieder online sind',
+  unauthorized: 'Nicht autorisiert',
+  unauthenticated: 'Nicht authentifiziert',
+  agentMessages: 'Agenten-Nachrichten',
+  agentFinished: 'Fertig',
+  stopGenerating: 'Generierung stoppen',
+  removeAttachment: 'Anhang entfernen',
+  poweredBy: 'Bereitgestellt von',
+  closeChat: 'Chat schließen',
+  tooltipMessage: 'Hallo 👋!',
+  dropToUpload: 'Zum Hochladen hier ablegen',
+  maxUploadSize: 'Maximale Größe: {maxUploadSize} MB',
+  followUpPrompts: 'Probieren Sie diese Fragen',
+
+  // message actions
+  copyToClipboard: 'In die Zwischenablage kopieren',
+  thumbsUp: 'Daumen hoch',
+  thumbsDown: 'Daumen runter',
+  regenerate: 'Neu generieren',
+  editMessage: 'Bearbeiten',
+  previousVersion: 'Vorherige Version',
+  nextVersion: 'Nächste Version',
+  copyCode: 'Code kopieren',
+  downloadCode: 'Herunterladen',
+  toggleLineWrapping: 'Zeilenumbruch umschalten',
+  copied: 'Kopiert!',
+  cancelEdit: 'Abbrechen',
+  sendEdit: 'Senden',
+
+  // feedback
+  feedbackTitle: 'Weiteres Feedback geben',
+  feedbackPlaceholder: 'Was halten Sie von dieser Antwort?',
+  feedbackSubmit: 'Feedback senden',
+
+  // lead capture
+  leadTitle: 'Wie können wir Sie erreichen?',
+  leadSuccessMessage: 'Vielen Dank für Ihre Kontaktdaten.',
+  leadNamePlaceholder: 'Name',
+  leadEmailPlaceholder: 'E-Mail-Adresse',
+  leadPhonePlaceholder: 'Telefonnummer',
+  leadNameTooShort: 'Der Name ist zu kurz',
+  leadInvalidEmail: 'Bitte geben Sie eine gültige E-Mail-Adresse ein',
+  leadPhoneTooShort: 'Die Telefonnummer ist zu kurz',
+  leadInvalidPhone: 'Ungültige Nummer!',
+  leadSubmit: 'Senden',
+  leadSaving: 'Wird gespeichert...',
+  leadCancel: 'Abbrechen',
+  cancelLeadCapture: 'Kontaktformular abbrechen',
+
+  // disclaimer
+  disclaimerTitle: 'Hinweis',
+  disclaimerMessage:
+    'Mit der Nutzung dieses Chatbots stimmen Sie den <a target="_blank" href="https://flowiseai.com/terms">Nutzungsbedingungen</a> zu.',
+  disclaimerAccept: 'Chat starten',
+  disclaimerDeny: 'Abbrechen',
+
+  // conversations and transcripts
+  conversations: 'Unterhaltungen',
+  newConversation: 'Neue Unterhaltung',
+  renameConversation: 'Umbenennen',
+  deleteConversation: 'Löschen',
+  close: 'Schließen',
+  clearChat: 'Chat zurücksetzen',
+  transcriptMenu: 'Unterhaltung exportieren oder importieren',
+  exportMarkdown: 'Markdown (.md)',
+  exportJson: 'JSON (.json)',
+  exportText: 'Nur Text (.txt)',
+  exportPrint: 'Drucken…',
+  importTranscript: 'JSON importieren…',
+  importFailed: 'Die Unterhaltung konnte nicht importiert werden.',
+  importOtherChatflow: 'Die Unterhaltung wurde aus einem anderen Chatbot exportiert.',
+  transcriptTitle: 'Unterhaltung',
+  transcriptUser: 'Benutzer',
+  transcriptBot: 'Bot',
+  transcriptAgent: 'Agent',
+  transcriptChatId: 'Chat-ID',
+  transcriptExported: 'Exportiert',
+  transcriptAttachments: 'Anhänge',
+  transcriptToolsUsed: 'Verwendete Tools',
+  transcriptSources: 'Quellen',
+
+  // audio recording
+  recordingNotSupported: 'Verwenden Sie zum Aufnehmen einen aktuellen Browser wie Chrome oder Firefox, der Audioaufnahmen unterstützt.',
+  recordingNotSupportedConfirm: 'OK',
+  recordingProcessing: 'Wird verarbeitet…',
+  pauseRecording: 'Aufnahme pausieren',
+  resumeRecording: 'Aufnahme fortsetzen',
+  stopRecording: 'Aufnahme beenden und anhören',
+  cancelRecording: 'Aufnahme verwerfen',
+  recordingTooShort: 'Bitte noch etwas länger aufnehmen',
+
+  // text to speech and voice mode
+  readAloud: 'Vorlesen',
+  resumeReading: 'Vorlesen fortsetzen',
+  pauseReading: 'Vorlesen pausieren',
+  stopReading: 'Vorlesen beenden',
+  readingSpeed: 'Lesegeschwindigkeit',
+  startVoiceMode: 'Sprachunterhaltung starten',
+  voiceMode: 'Sprachunterhaltung',
+  endVoiceMode: 'Sprachunterhaltung beenden',
+  voiceListening: 'Ich höre zu…',
+  voiceThinking: 'Ich denke nach…',
+  voiceSpeaking: 'Ich spreche…',
+  stopSpeaking: 'Nicht mehr sprechen',
+};
@@ -0,0 +1,117 @@
+export const en = {
+  // chat
+  welcomeMessage: 'Hi there! How can I help?',
+  inputPlaceholder: 'Type your question',
+  errorMessage: 'Oops! There seems to be an error. Please try again.',
+  tooManyRequests: 'Too many requests. Please try again later.',
+  uploadFailed: 'Unable to upload documents',
+  maxCharsWarning: 'You exceeded the characters limit. Please input less than {maxChars} characters.',
+  responseStopped: 'Response stopped',
+  reconnecting: 'Connection lost, reconnecting…',
+  storageFull: 'This chat could not be saved on this device, it may be lost when the page is reloaded.',
+  pendingMessage: 'Pending, will be sent when you are back online',
+  unauthorized: 'Unauthorized',
+  unauthenticated: 'Unauthenticated',
+  agentMessages: 'Agent Messages',
+  agentFinished: 'Finished',
+  stopGenerating: 'Stop generating',
+  removeAttachment: 'Remove attachment',
+  poweredBy: 'Powered by',
+  closeChat: 'Close Chat',
+  tooltipMessage: 'Hi There 👋!',
+  dropToUpload: 'Drop here to upload',
+  maxUploadSize: 'Max Allowed Size: {maxUploadSize} MB',
+  followUpPrompts: 'Try these prompts',
+
+  // message actions
+  copyToClipboard: 'Copy to clipboard',
+  thumbsUp: 'Thumbs Up',
+  thumbsDown: 'Thumbs Down',
+  regenerate: 'Regenerate',
+  editMessage: 'Edit',
+  previousVersion: 'Previous version',
+  nextVersion: 'Next version',
+  copyCode: 'Copy code',
+  downloadCode: 'Download',
+  toggleLineWrapping: 'Toggle line wrapping',
+  copied: 'Copied!',
+  cancelEdit: 'Cancel',
+  sendEdit: 'Send',
+
+  // feedback
+  feedbackTitle: 'Provide additional feedback',
+  feedbackPlaceholder: 'What do you think of the response?',
+  feedbackSubmit: 'Submit Feedback',
+
+  // lead capture
+  leadTitle: 'Let us know where we can reach you:',
+  leadSuccessMessage: 'Thank you for submitting your contact information.',
+  leadNamePlaceholder: 'Name',
+  leadEmailPlaceholder: 'Email Address',
+  leadPhonePlaceholder: 'Phone Number',
+  leadNameTooShort: 'Name is too short',
+  leadInvalidEmail: 'Please provide a valid email',
+  leadPhoneTooShort: 'Phone number is too short',
+  leadInvalidPhone: 'Invalid Number!',
+  leadSubmit: 'Submit',
+  leadSaving: 'Saving...',
+  leadCancel: 'Cancel',
+  cancelLeadCapture: 'Cancel Lead Capture',
+
+  // disclaimer
+  disclaimerTitle: 'Disclaimer',
+  disclaimerMessage: 'By using this chatbot, you agree to the <a target="_blank" href="https://flowiseai.com/terms">Terms & Condition</a>.',
+  disclaimerAccept: 'Start Chatting',
+  disclaimerDeny: 'Cancel',
+
+  // conversations and transcripts
+  conversations: 'Conversations',
+  newConversation: 'New conversation',
+  renameConversation: 'Rename',
+  deleteConversation: 'Delete',
+  close: 'Close',
+  clearChat: 'Reset Chat',
+  transcriptMenu: 'Export or import conversation',
+  exportMarkdown: 'Markdown (.md)',
+  exportJson: 'JSON (.json)',
+  exportText: 'Plain text (.txt)',
+  exportPrint: 'Print…',
+  importTranscript: 'Import JSON…',
+  importFailed: 'Unable to import the conversation.',
+  importOtherChatflow: 'The conversation was exported from another chatbot.',
+  transcriptTitle: 'Conversation',
+  transcriptUser: 'User',
+  transcriptBot: 'Bot',
+  transcriptAgent: 'Agent',
+  transcriptChatId: 'Chat ID',
+  transcriptExported: 'Exported',
+  transcriptAttachments: 'Attachments',
+  transcriptToolsUsed: 'Tools used',
+  transcriptSources: 'Sources',
+
+  // audio recording
+  recordingNotSupported: 'To record audio, use modern browsers like Chrome or Firefox that support audio recording.',
+  recordingNotSupportedConfirm: 'Okay',
+  recordingProcessing: 'Processing…',
+  pauseRecording: 'Pause recording',
+  resumeRecording: 'Resume recording',
+  stopRecording: 'Stop recording and review it',
+  cancelRecording: 'Discard recording',
+  recordingTooShort: 'Keep recording a little longer',
+
+  // text to speech and voice mode
+  readAloud: 'Read aloud',
+  resumeReading: 'Resume reading',
+  pauseReading: 'Pause reading',
+  stopReading: 'Stop reading',
+  readingSpeed: 'Reading speed',
+  startVoiceMode: 'Start a voice conversation',
+  voiceMode: 'Voice conversation',
+  endVoiceMode: 'End voice conversation',
+  voiceListening: 'Listening…',
+  voiceThinking: 'Thinking…',
+  voiceSpeaking: 'Speaking…',
+  stopSpeaking: 'Stop speaking',
+};
+
+export type Translations = typeof en;
@@ -0,0 +1,117 @@
+import type { Translations } from './en';
+
+export const es: Translations = {
+  // chat
+  welcomeMessage: '¡Hola! ¿En qué puedo ayudarte?',
+  inputPlaceholder: 'Escribe tu pregunta',
+  errorMessage: '¡Vaya! Parece que se ha producido un error. Inténtalo de nuevo.',
+  tooManyRequests: 'Demasiadas solicitudes. Inténtalo de nuevo más tarde.',
+  uploadFailed: 'No se pudieron subir los documentos',
+  maxCharsWarning: 'Has superado el límite de caracteres. Escribe menos de {maxChars} caracteres.',
+  responseStopped: 'Respuesta detenida',
+  reconnecting: 'Conexión perdida, reconectando…',
+  storageFull: 'No se pudo guardar este chat en este dispositivo, puede perderse al recargar la página.',
+  pendingMessage: 'Pendiente, se enviará cuando vuelvas a estar en línea',
+  unauthorized: 'No autorizado',
+  unauthenticated: 'No autenticado',
+  agentMessages: 'Mensajes del agente',
+  agentFinished: 'Terminado',
+  stopGenerating: 'Detener la generación',
+  removeAttachment: 'Quitar el archivo adjunto',
+  poweredBy: 'Con la tecnología de',
+  closeChat: 'Cerrar el chat',
+  tooltipMessage: '¡Hola 👋!',
+  dropToUpload: 'Suelta aquí para subir',
+  maxUploadSize: 'Tamaño máximo: {maxUploadSize} MB',
+  followUpPrompts: 'Prueba estas preguntas',
+
+  // message actions
+  copyToClipboard: 'Copiar al portapapeles',
+  thumbsUp: 'Me gusta',
+  thumbsDown: 'No me gusta',
+  regenerate: 'Regenerar',
+  editMessage: 'Editar',
+  previousVersion: 'Versión anterior',
+  nextVersion: 'Versión siguiente',
+  copyCode: 'Copiar código',
+  downloadCode: 'Descargar',
+  toggleLineWrapping: 'Ajustar líneas',
+  copied: '¡Copiado!',
+  cancelEdit: 'Cancelar',
+  sendEdit: 'Enviar',
+
+  // feedback
+  feedbackTitle: 'Cuéntanos más',
+  feedbackPlaceholder: '¿Qué te parece esta respuesta?',
+  feedbackSubmit: 'Enviar comentarios',
+
+  // lead capture
+  leadTitle: 'Dinos cómo podemos contactarte:',
+  leadSuccessMessage: 'Gracias por enviarnos tus datos de contacto.',
+  leadNamePlaceholder: 'Nombre',
+  leadEmailPlaceholder: 'Correo electrónico',
+  leadPhonePlaceholder: 'Número de teléfono',
+  leadNameTooShort: 'El nombre es demasiado corto',
+  leadInvalidEmail: 'Introduce un correo electrónico válido',
+  leadPhoneTooShort: 'El número de teléfono es demasiado corto',
+  leadInvalidPhone: '¡Número no válido!',
+  leadSubmit: 'Enviar',
+  leadSaving: 'Guardando...',
+  leadCancel: 'Cancelar',
+  cancelLeadCapture: 'Cancelar el formulario de contacto',
+
+  // disclaimer
+  disclaimerTitle: 'Aviso',
+  disclaimerMessage: 'Al usar este chatbot, aceptas los <a target="_blank" href="https://flowiseai.com/terms">Términos y condiciones</a>.',
+  disclaimerAccept: 'Empezar a chatear',
+  disclaimerDeny: 'Cancelar',
+
+  // conversations and transcripts
+  conversations: 'Conversaciones',
+  newConversation: 'Nueva conversación',
+  renameConversation: 'Cambiar nombre',
+  deleteConversation: 'Eliminar',
+  close: 'Cerrar',
+  clearChat: 'Reiniciar el chat',
+  transcriptMenu: 'Exportar o importar la conversación',
+  exportMarkdown: 'Markdown (.md)',
+  exportJson: 'JSON (.json)',
+  exportText: 'Texto sin formato (.txt)',
+  exportPrint: 'Imprimir…',
+  importTranscript: 'Importar JSON…',
+  importFailed: 'No se pudo importar la conversación.',
+  importOtherChatflow: 'La conversación se exportó desde otro chatbot.',
+  transcriptTitle: 'Conversación',
+  transcriptUser: 'Usuario',
+  transcriptBot: 'Bot',
+  transcriptAgent: 'Agente',
+  transcriptChatId: 'ID del chat',
+  transcriptExported: 'Exportado',
+  transcriptAttachments: 'Adjuntos',
+  transcriptToolsUsed: 'Herramientas usadas',
+  transcriptSources: 'Fuentes',
+
+  // audio recording
+  recordingNotSupported: 'Para grabar audio, usa un navegador moderno como Chrome o Firefox que admita la grabación de audio.',
+  recordingNotSupportedConfirm: 'De acuerdo',
+  recordingProcessing: 'Procesando…',
+  pauseRecording: 'Pausar la grabación',
+  resumeRecording: 'Reanudar la grabación',
+  stopRecording: 'Detener la grabación y revisarla',
+  cancelRecording: 'Descartar la grabación',
+  recordingTooShort: 'Sigue grabando un poco más',
+
+  // text to speech and voice mode
+  readAloud: 'Leer en voz alta',
+  resumeReading: 'Reanudar la lectura',
+  pauseReading: 'Pausar la lectura',
+  stopReading: 'Detener la lectura',
+  readingSpeed: 'Velocidad de lectura',
+  startVoiceMode: 'Iniciar una conversación de voz',
+  voiceMode: 'Conversación de voz',
+  endVoiceMode: 'Terminar la conversación de voz',
+  voiceListening: 'Escuchando…',
+  voiceThinking: 'Pensando…',
+  voiceSpeaking: 'Hablando…',
+  stopSpeaking: 'Dejar de hablar',
+};
@@ -0,0 +1,117 @@
+import type { Translations } from './en';
+
+export const fr: Translations = {
+  // chat
+  welcomeMessage: 'Bonjour ! Comment puis-je vous aider ?',
+  inputPlaceholder: 'Posez votre question',
+  errorMessage: 'Oups ! Une erreur est survenue. Veuillez réessayer.',
+  tooManyRequests: 'Trop de requêtes. Veuillez réessayer plus tard.',
+  uploadFailed: "Impossible d'envoyer les documents",
+  maxCharsWarning: 'Vous avez dépassé la limite de caractères. Veuillez saisir moins de {maxChars} caractères.',
+  responseStopped: 'Réponse interrompue',
+  reconnecting: 'Connexion perdue, reconnexion…',
+  storageFull: "Cette discussion n'a pas pu être enregistrée sur cet appareil, elle risque d'être perdue au rechargement de la page.",
+  pendingMessage: 'En attente, sera envoyé lorsque vous serez de nouveau en ligne',
+  unauthorized: 'Non autorisé',
+  unauthenticated: 'Non authentifié',
+  agentMessages: "Messages de l'agent",
+  agentFinished: 'Terminé',
+  stopGenerating: 'Arrêter la génération',
+  removeAttachment: 'Retirer la pièce jointe',
+  poweredBy: 'Propulsé par',
+  closeChat: 'Fermer la discussion',
+  tooltipMessage: 'Bonjour 👋 !',
+  dropToUpload: 'Déposez ici pour envoyer',
+  maxUploadSize: 'Taille maximale : {maxUploadSize} Mo',
+  followUpPrompts: 'Essayez ces questions',
+
+  // message actions
+  copyToClipboard: 'Copier dans le presse-papiers',
+  thumbsUp: "J'aime",
+  thumbsDown: "Je n'aime pas",
+  regenerate: 'Régénérer',
+  editMessage: 'Modifier',
+  previousVersion: 'Version précédente',
+  nextVersion: 'Version suivante',
+  copyCode: 'Copier le code',
+  downloadCode: 'Télécharger',
+  toggleLineWrapping: 'Activer ou désactiver le retour à la ligne',
+  copied: 'Copié !',
+  cancelEdit: 'Annuler',
+  sendEdit: 'Envoyer',
+
+  // feedback
+  feedbackTitle: 'Donnez-nous plus de détails',
+  feedbackPlaceholder: 'Que pensez-vous de cette réponse ?',
+  feedbackSubmit: "Envoyer l'avis",
+
+  // lead capture
+  leadTitle: 'Indiquez-nous comment vous joindre :',
+  leadSuccessMessage: "Merci d'avoir transmis vos coordonnées.",
+  leadNamePlaceholder: 'Nom',
+  leadEmailPlaceholder: 'Adresse e-mail',
+  leadPhonePlaceholder: 'Numéro de téléphone',
+  leadNameTooShort: 'Le nom est trop court',
+  leadInvalidEmail: 'Veuillez saisir une adresse e-mail valide',
+  leadPhoneTooShort: 'Le numéro de téléphone est trop court',
+  leadInvalidPhone: 'Numéro invalide !',
+  leadSubmit: 'Envoyer',
+  leadSaving: 'Enregistrement...',
+  leadCancel: 'Annuler',
+  cancelLeadCapture: 'Annuler le formulaire de contact',
+
+  // disclaimer
+  disclaimerTitle: 'Avertissement',
+  disclaimerMessage: 'En utilisant ce chatbot, vous acceptez les <a target="_blank" href="https://flowiseai.com/terms">Conditions générales</a>.',
+  disclaimerAccept: 'Commencer',
+  disclaimerDeny: 'Annuler',
+
+  // conversations and transcripts
+  conversations: 'Conversations',
+  newConversation: 'Nouvelle conversation',
+  renameConversation: 'Renommer',
+  deleteConversation: 'Supprimer',
+  close: 'Fermer',
+  clearChat: 'Réinitialiser la discussion',
+  transcriptMenu: 'Exporter ou importer la conversation',
+  exportMarkdown: 'Markdown (.md)',
+  exportJson: 'JSON (.json)',
+  exportText: 'Texte brut (.txt)',
+  exportPrint: 'Imprimer…',
+  importTranscript: 'Importer un JSON…',
+  importFailed: "Impossible d'importer la conversation.",
+  importOtherChatflow: 'Cette conversation a été exportée depuis un autre chatbot.',
+  transcriptTitle: 'Conversation',
+  transcriptUser: 'Utilisateur',
+  transcriptBot: 'Bot',
+  transcriptAgent: 'Agent',
+  transcriptChatId: 'ID de discussion',
+  transcriptExported: 'Exporté',
+  transcriptAttachments: 'Pièces jointes',
+  transcriptToolsUsed: 'Outils utilisés',
+  transcriptSources: 'Sources',
+
+  // audio recording
+  recordingNotSupported: "Pour enregistrer de l'audio, utilisez un navigateur récent comme Chrome ou Firefox qui prend en charge l'enregistrement.",
+  recordingNotSupportedConfirm: "D'accord",
+  recordingProcessing: 'Traitement…',
+  pauseRecording: "Mettre l'enregistrement en pause",
+  resumeRecording: "Reprendre l'enregistrement",
+  stopRecording: "Arrêter l'enregistrement et le réécouter",
+  cancelRecording: "Supprimer l'enregistrement",
+  recordingTooShort: 'Enregistrez encore un peu',
+
+  // text to speech and voice mode
+  readAloud: 'Lire à voix haute',
+  resumeReading: 'Reprendre la lecture',
+  pauseReading: 'Mettre la lecture en pause',
+  stopReading: 'Arrêter la lecture',
+  readingSpeed: 'Vitesse de lecture',
+  startVoiceMode: 'Démarrer une conversation vocale',
+  voiceMode: 'Conversation vocale',
+  endVoiceMode: 'Terminer la conversation vocale',
+  voiceListening: 'À l’écoute…',
+  voiceThinking: 'Réflexion…',
+  voiceSpeaking: 'Réponse en cours…',
+  stopSpeaking: 'Arrêter de parler',
+};
@@ -0,0 +1,56 @@
+import { ar } from './ar';
+import { de } from './de';
+import { en, Translations } from './en';
+import { es } from './es';
+import { fr } from './fr';
+
+export type { Translations };
+
+export const translations: Record<string, Translations> = { en, ar, fr, es, de };
+
+/** Strings to replace per locale, e.g. `{ en: { welcomeMessage: 'Welcome to Acme!' } }`, `'*'` applies to every locale */
+export type TranslationOverrides = Record<string, Partial<Translations>>;
+
+const getLanguage = (locale: string) => locale.toLowerCase().split(/[-_]/)[0];
+
+/**
+ * The bundled locale to use: the one asked for if it is bundled, otherwise the first of the browser's languages that is.
+ * Falls back to English.
+ */
+export const resolveLocale = (locale?: string) => {
+  const browserLocales = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  const candidates = locale ? [locale] : browserLocales;
+  return candidates.map(getLanguage).find((language) => translations[language]) ?? 'en';
+};
+
+/**
+ * All the UI strings for a locale, with the overrides from the theme applied on top
+ */
+export const resolveTranslations = (locale?: string, overrides: TranslationOverrides = {}): Translations => {
+  const resolvedLocale = resolveLocale(locale);
+  return {
+    ...translations[resolvedLocale],
+    ...overrides['*'],
+    ...overrides[resolvedLocale],
+    // a locale that is not bundled, e.g. 'it', can be translated entirely from the theme
+    ...(locale && locale !== resolvedLocale ? overrides[locale] : undefined),
+  };
+};
+
+/** The layout direction of the widget, `'auto'` follows the locale */
+export type LayoutDirection = 'ltr' | 'rtl' | 'auto';
+
+const rtlLanguages = ['ar', 'fa', 'he', 'ur'];
+
+/**
+ * Whether the widget is laid out left to right or right to left.
+ * `'auto'` is right to left when the language of the UI, the locale asked for or the browser's, is written right to left.
+ */
+export const resolveDirection = (direction: LayoutDirection = 'ltr', locale?: string): 'ltr' | 'rtl' => {
+  if (direction !== 'auto') return direction;
+  return rtlLanguages.includes(getLanguage(locale ?? resolveLocale())) ? 'rtl' : 'ltr';
+};
+
+/** Fills the `{name}` placeholders of a translated string */
+export const formatTranslation = (text: string, values: Record<string, string | number>) =>
+  text.replace(/\{(\w+)\}/g, (placeholder, name) => (name in values ? String(values[name]) : placeholder));
@@ -1,5 +1,6 @@
+import { fetchEventSource, FetchEventSourceInit } from '@microsoft/fetch-event-source';
 import { FileUpload, IAction } from '@/components/Bot';
-import { sendRequest } from '@/utils/index';
+import { prepareRequest, sendRequest } from '@/utils/index';
 
 export type IncomingInput = {
   question: string;
@@ -10,6 +11,7 @@ export type IncomingInput = {
   fileName?: string; // Only for assistant
   leadEmail?: string;
   action?: IAction;
+  streaming?: boolean;
 };
 
 type BaseRequest = {
@@ -20,8 +22,16 @@ type BaseRequest = {
 export type MessageRequest = BaseRequest & {
   chatflowid?: string;
   body?: IncomingInput;
+  signal?: AbortSignal;
 };
 
+export type AbortMessageRequest = BaseRequest & {
+  chatflowid: string;
+  chatId: string;
+};
+
+export type StreamMessageRequest = MessageRequest & Pick<FetchEventSourceInit, 'onopen' | 'onmessage' | 'onclose' | 'onerror'>;
+
 export type FeedbackRatingType = 'THUMBS_UP' | 'THUMBS_DOWN';
 
 export type FeedbackInput = {
@@ -59,6 +69,29 @@ export type LeadCaptureRequest = BaseRequest & {
   body: Partial<LeadCaptureInput>;
 };
 
+export type ChatMessagesRequest = BaseRequest & {
+  chatflowid: string;
+  chatId: string;
+  signature?: string;
+};
+
+/** A message as stored by Flowise, its JSON columns come back as strings */
+export type ChatMessageRecord = {
+  id: string;
+  role: 'apiMessage' | 'userMessage';
+  content: string;
+  chatId: string;
+  createdDate: string;
+  sourceDocuments?: string;
+  usedTools?: string;
+  fileAnnotations?: string;
+  agentReasoning?: string;
+  fileUploads?: string;
+  artifacts?: string;
+  action?: string;
+  followUpPrompts?: string;
+};
+
 export const sendFeedbackQuery = ({ chatflowid, apiHost = 'http://localhost:3000', body, onRequest }: CreateFeedbackRequest) =>
   sendRequest({
     method: 'POST',
@@ -75,11 +108,52 @@ export const updateFeedbackQuery = ({ id, apiHost = 'http://localhost:3000', bod
     onRequest: onRequest,
   });
 
-export const sendMessageQuery = ({ chatflowid, apiHost = 'http://localhost:3000', body, onRequest }: MessageRequest) =>
+export const sendMessageQuery = ({ chatflowid, apiHost = 'http://localhost:3000', body, signal, onRequest }: MessageRequest) =>
   sendRequest<any>({
     method: 'POST',
     url: `${apiHost}/api/v1/prediction/${chatflowid}`,
     body,
+    signal,
+    onRequest: onRequest,
+  });
+
+export const sendMessageStreamQuery = async ({
+  chatflowid,
+  apiHost = 'http://localhost:3000',
+  body,
+  signal,
+  onRequest,
+  ...handlers
+}: StreamMessageRequest) => {
+  const requestInfo = await prepareRequest({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, streaming: true }),
+    signal,
+    onRequest,
+  });
+
+  return fetchEventSource(`${apiHost}/api/v1/prediction/${chatflowid}`, {
+    ...requestInfo,
+    // fetchEventSource only accepts a plain headers object
+    headers: Object.fromEntries(new Headers(requestInfo.headers).entries()),
+    body: requestInfo.body as string,
+    openWhenHidden: true,
+    ...handlers,
+  });
+};
+
+export const abortMessageQuery = ({ chatflowid, apiHost = 'http://localhost:3000', chatId, onRequest }: AbortMessageRequest) =>
+  sendRequest<any>({
+    method: 'PUT',
+    url: `${apiHost}/api/v1/chatmessage/abort/${chatflowid}/${chatId}`,
+    onRequest: onRequest,
+  });
+
+export const getChatMessagesQuery = ({ chatflowid, apiHost = 'http://localhost:3000', chatId, signature, onRequest }: ChatMessagesRequest) =>
+  sendRequest<ChatMessageRecord[]>({
+    method: 'GET',
+    url: `${apiHost}/api/v1/chatmessage/${chatflowid}?${new URLSearchParams({ chatId, order: 'ASC', ...(signature ? { signature } : {}) })}`,
     onRequest: onRequest,
   });
 
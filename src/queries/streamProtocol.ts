@@ -0,0 +1,213 @@
+import { z } from 'zod';
+
+/**
+ * Events Flowise sends while streaming a prediction.
+ * Each SSE message carries one of them as JSON, e.g. `data: {"event":"token","data":"Hello"}`
+ */
+export const streamEventTypes = [
+  'start',
+  'token',
+  'sourceDocuments',
+  'usedTools',
+  'fileAnnotations',
+  'agentReasoning',
+  'action',
+  'artifacts',
+  'metadata',
+  'error',
+  'abort',
+  'end',
+] as const;
+
+export type StreamEventType = (typeof streamEventTypes)[number];
+
+const parseJSON = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const textSchema = z.preprocess((value) => (typeof value === 'string' ? value : JSON.stringify(value ?? '')), z.string());
+
+/**
+ * Keeps the valid items of a list, so one malformed item does not hide the others.
+ * Lists may arrive JSON encoded, as saved in chat history or sent by older Flowise versions.
+ */
+const listOf = <T extends z.ZodTypeAny>(itemSchema: T, name: string) =>
+  z.preprocess(
+    (value) => (typeof value === 'string' ? parseJSON(value) : value),
+    z.array(z.unknown()).transform((items) =>
+      items.flatMap((item): z.output<T>[] => {
+        const res = itemSchema.safeParse(item);
+        if (res.success) return [res.data];
+        console.warn(`Ignoring malformed ${name}:`, res.error.issues[0]?.message);
+        return [];
+      }),
+    ),
+  );
+
+const sourceDocumentSchema = z
+  .object({
+    pageContent: z.string().catch(''),
+    metadata: z.object({ source: z.coerce.string().optional() }).passthrough().catch({}),
+  })
+  .passthrough();
+
+const usedToolSchema = z
+  .object({
+    tool: z.string(),
+    toolInput: z.unknown(),
+    toolOutput: z.unknown(),
+  })
+  .passthrough();
+
+const fileAnnotationSchema = z
+  .object({
+    fileName: z.string(),
+    fileId: z.string().optional(),
+  })
+  .passthrough();
+
+const artifactSchema = z
+  .object({
+    type: z.string(),
+    data: z.string(),
+  })
+  .passthrough();
+
+const toolCallSchema = z
+  .object({
+    id: z.string().optional(),
+    name: z.string(),
+    args: z.record(z.unknown()).catch({}),
+  })
+  .passthrough();
+
+const actionSchema = z
+  .object({
+    id: z.string().optional(),
+    elements: listOf(z.object({ type: z.string(), label: z.string() }), 'action element').optional(),
+    mapping: z
+      .object({
+        approve: z.string(),
+        reject: z.string(),
+        toolCalls: listOf(toolCallSchema, 'tool call').catch([]),
+      })
+      .optional(),
+  })
+  .passthrough();
+
+const agentReasoningSchema = z
+  .object({
+    agentName: z.string().optional(),
+    messages: z.array(textSchema).optional(),
+    usedTools: listOf(usedToolSchema, 'used tool').optional(),
+    artifacts: listOf(artifactSchema, 'artifact').optional(),
+    sourceDocuments: listOf(sourceDocumentSchema, 'source document').optional(),
+    instructions: z.string().optional(),
+    nextAgent: z.string().optional(),
+  })
+  .passthrough();
+
+const metadataSchema = z
+  .object({
+    chatId: z.string().optional(),
+    chatMessageId: z.string().optional(),
+    question: z.string().optional(), // the transcribed question when it was sent as audio
+    sessionId: z.string().optional(),
+    memoryType: z.string().optional(),
+    // JSON encoded list of prompts
+    followUpPrompts: z
+      .preprocess(
+        (value) => (Array.isArray(value) ? JSON.stringify(value) : value),
+        z.string().refine((value) => Array.isArray(parseJSON(value)), 'Expected a JSON encoded list'),
+      )
+      .optional()
+      .catch(undefined),
+  })
+  .passthrough();
+
+const streamPayloadSchemas = {
+  start: textSchema,
+  token: textSchema,
+  sourceDocuments: listOf(sourceDocumentSchema, 'source document'),
+  usedTools: listOf(usedToolSchema, 'used tool'),
+  fileAnnotations: listOf(fileAnnotationSchema, 'file annotation'),
+  agentReasoning: listOf(agentReasoningSchema, 'agent reasoning'),
+  action: actionSchema,
+  artifacts: listOf(artifactSchema, 'artifact'),
+  metadata: metadataSchema,
+  error: textSchema,
+  abort: textSchema,
+  end: textSchema,
+};
+
+export type StreamEventPayloads = { [T in StreamEventType]: z.output<(typeof streamPayloadSchemas)[T]> };
+
+export type StreamEvent = {
+  [T in StreamEventType]: { event: T; data: StreamEventPayloads[T] };
+}[StreamEventType];
+
+export type SourceDocument = z.output<typeof sourceDocumentSchema>;
+export type UsedTool = z.output<typeof usedToolSchema>;
+export type FileAnnotation = z.output<typeof fileAnnotationSchema>;
+export type Artifact = z.output<typeof artifactSchema>;
+export type ToolCall = z.output<typeof toolCallSchema>;
+export type Action = z.output<typeof actionSchema>;
+export type AgentReasoning = z.output<typeof agentReasoningSchema>;
+export type StreamMetadata = StreamEventPayloads['metadata'];
+
+export const isStreamEventType = (value: unknown): value is StreamEventType => streamEventTypes.includes(value as StreamEventType);
+
+/**
+ * Validates a payload of the given kind, for streamed events, complete responses and saved history alike.
+ * Missing payloads come back as undefined. So do malformed ones, with a warning, while malformed list items are dropped,
+ * so a bad payload is left out of the message instead of breaking it.
+ */
+export const decodePayload = <T extends StreamEventType>(type: T, data: unknown): StreamEventPayloads[T] | undefined => {
+  if (data === undefined || data === null) return undefined;
+  const res = streamPayloadSchemas[type].safeParse(data);
+  if (res.success) return res.data as StreamEventPayloads[T];
+  console.warn(`Ignoring malformed ${type}:`, res.error.issues[0]?.message);
+  return undefined;
+};
+
+/**
+ * Reads the JSON carried by an SSE message, anything that is not a known stream event is returned as undefined
+ */
+export const parseStreamEvent = (message: string): StreamEvent | undefined => {
+  const payload = parseJSON(message) as { event?: unknown; data?: unknown } | undefined;
+  if (!payload || !isStreamEventType(payload.event)) return undefined;
+  const data = decodePayload(payload.event, payload.data ?? '');
+  if (data === undefined) return undefined;
+  return { event: payload.event, data } as StreamEvent;
+};
+
+/** The non-streaming prediction response, with the same payloads as the stream */
+export type Prediction = StreamMetadata & {
+  text?: string;
+  json?: unknown;
+  sourceDocuments?: SourceDocument[];
+  usedTools?: UsedTool[];
+  fileAnnotations?: FileAnnotation[];
+  agentReasoning?: AgentReasoning[];
+  action?: Action;
+  artifacts?: Artifact[];
+};
+
+export const decodePrediction = (data: unknown): Prediction => {
+  const response: Record<string, unknown> = typeof data === 'object' && data !== null && !Array.isArray(data) ? { ...data } : {};
+  return {
+    ...decodePayload('metadata', response),
+    text: typeof response.text === 'string' ? response.text : undefined,
+    json: response.json,
+    sourceDocuments: decodePayload('sourceDocuments', response.sourceDocuments),
+    usedTools: decodePayload('usedTools', response.usedTools),
+    fileAnnotations: decodePayload('fileAnnotations', response.fileAnnotations),
+    agentReasoning: decodePayload('agentReasoning', response.agentReasoning),
+    action: decodePayload('action', response.action),
+    artifacts: decodePayload('artifacts', response.artifacts),
+  };
+};
@@ -8,11 +8,20 @@ import DeviceDetector from 'device-detector-js';
 // audio-recording.js ---------------
 let elapsedTime = '00:00';
 
-/** Stores the actual start time when an audio recording begins to take place to ensure elapsed time start time is accurate*/
-let audioRecordStartTime: Date;
+/** Stores the actual start time when an audio recording begins or resumes to ensure elapsed time start time is accurate, unset while paused*/
+let audioRecordStartTime: Date | undefined;
 
-/** Stores the maximum recording time in hours to stop recording once maximum recording hour has been reached */
-const maximumRecordingTimeInHours = 1;
+/** Stores the milliseconds recorded before the recording was last paused */
+let recordedTimeBeforePause = 0;
+
+/** Default maximum recording time in seconds, one hour */
+export const defaultMaximumRecordingTimeInSeconds = 3600;
+
+/** Stores the maximum recording time in seconds to stop recording once it has been reached */
+let maximumRecordingTimeInSeconds = defaultMaximumRecordingTimeInSeconds;
+
+/** Called once the maximum recording time is reached, the recording is discarded when not set */
+let onMaximumRecordingTimeReached: (() => void) | undefined;
 
 /** Stores the reference of the setInterval function that controls the timer in audio recording*/
 let elapsedTimeTimer: ReturnType<typeof setInterval>;
@@ -21,12 +30,22 @@ export function getElaspedTime() {
   return elapsedTime;
 }
 
+/** Milliseconds recorded so far, the time spent paused is left out */
+export function getElapsedMilliseconds() {
+  return recordedTimeBeforePause + (audioRecordStartTime ? Date.now() - audioRecordStartTime.getTime() : 0);
+}
+
 /** Starts the audio recording*/
 export function startAudioRecording(
   onRecordingStart: (value: boolean) => void,
   onUnsupportedBrowser: (value: boolean) => void,
-  setElapsedTime: (value: string) => void,
+  setElapsedTime: (value: string, milliseconds: number) => void,
+  maximumTimeInSeconds = defaultMaximumRecordingTimeInSeconds,
+  onMaximumTimeReached?: () => void,
 ) {
+  maximumRecordingTimeInSeconds = maximumTimeInSeconds;
+  onMaximumRecordingTimeReached = onMaximumTimeReached;
+
   //start recording using the audio recording API
   audioRecorder
     .start()
@@ -37,6 +56,7 @@ export function startAudioRecording(
       }
       //store the recording start time to display the elapsed time according to it
       audioRecordStartTime = new Date();
+      recordedTimeBeforePause = 0;
 
       //Handle the displaying of the elapsed recording time
       handleElapsedRecordingTime(setElapsedTime);
@@ -119,6 +139,21 @@ export function stopAudioRecording(addRecordingToPreviews: null | ((blob: Blob)
     });
 }
 
+/** Pause the currently started audio recording, the elapsed time stops with it */
+export function pauseAudioRecording() {
+  if (!audioRecordStartTime) return;
+  audioRecorder.pause();
+  recordedTimeBeforePause = getElapsedMilliseconds();
+  audioRecordStartTime = undefined;
+}
+
+/** Resume the paused audio recording */
+export function resumeAudioRecording() {
+  if (audioRecordStartTime) return;
+  audioRecorder.resume();
+  audioRecordStartTime = new Date();
+}
+
 /** Cancel the currently started audio recording */
 export function cancelAudioRecording() {
   //cancel the recording using the audio recording API
@@ -129,18 +164,19 @@ export function cancelAudioRecording() {
 }
 
 /** Computes the elapsed recording time since the moment the function is called in the format h:m:s*/
-function handleElapsedRecordingTime(setElapsedTime: (value: string) => void) {
+function handleElapsedRecordingTime(setElapsedTime: (value: string, milliseconds: number) => void) {
   //display initial time when recording begins
   elapsedTime = '00:00';
   // set elapsed time so it can be displayed in the component
-  setElapsedTime(elapsedTime);
+  setElapsedTime(elapsedTime, 0);
 
   //create an interval that compute & displays elapsed time, as well as, animate red dot - every second
   elapsedTimeTimer = setInterval(() => {
     //compute the elapsed time every second
-    elapsedTime = computeElapsedTime(audioRecordStartTime); //pass the actual record start time
+    const elapsedMilliseconds = getElapsedMilliseconds();
+    elapsedTime = computeElapsedTime(elapsedMilliseconds);
     // set elapsed time so it can be displayed in the component
-    setElapsedTime(elapsedTime);
+    setElapsedTime(elapsedTime, elapsedMilliseconds);
     //display the elapsed time
     displayElapsedTimeDuringAudioRecording();
   }, 1000); //every second
@@ -149,41 +185,28 @@ function handleElapsedRecordingTime(setElapsedTime: (value: string) => void) {
 /** Display elapsed time during audio recording
  */
 function displayElapsedTimeDuringAudioRecording() {
-  // Stop the recording when the max number of hours is reached
-  if (elapsedTimeReachedMaximumNumberOfHours()) {
-    stopAudioRecording(null);
+  // Stop the recording when the maximum recording time is reached
+  if (getElapsedMilliseconds() >= maximumRecordingTimeInSeconds * 1000) {
+    clearInterval(elapsedTimeTimer);
+    if (onMaximumRecordingTimeReached) {
+      onMaximumRecordingTimeReached();
+    } else {
+      stopAudioRecording(null);
+    }
   }
 }
 
-/**
- * @returns {Boolean} whether the elapsed time reached the maximum number of hours or not
- */
-function elapsedTimeReachedMaximumNumberOfHours() {
-  //Split the elapsed time by the symbol that separates the hours, minutes and seconds :
-  const elapsedTimeSplit = elapsedTime.split(':');
-
-  //Turn the maximum recording time in hours to a string and pad it with zero if less than 10
-  const maximumRecordingTimeInHoursAsString =
-    maximumRecordingTimeInHours < 10 ? '0' + maximumRecordingTimeInHours : maximumRecordingTimeInHours.toString();
-
-  //if the elapsed time reach hours and also reach the maximum recording time in hours return true
-  return elapsedTimeSplit.length === 3 && elapsedTimeSplit[0] === maximumRecordingTimeInHoursAsString;
-}
-
 function padLeft(num: number, size: number) {
   return `${num}`.padStart(size, '0');
 }
 
-/** Computes the elapsedTime since the moment the function is called in the format mm:ss or hh:mm:ss
- * @param {String} startTime - start time to compute the elapsed time since
+/** Formats an elapsed time in the format mm:ss or hh:mm:ss
+ * @param {Number} elapsedMilliseconds - the elapsed time in milliseconds
  * @returns {String} elapsed time in mm:ss format or hh:mm:ss format, if elapsed hours are 0.
  */
-function computeElapsedTime(startTime: Date) {
-  //record end time
-  const endTime = new Date();
-
+function computeElapsedTime(elapsedMilliseconds: number) {
   //time difference in ms
-  let timeDiff = endTime.getTime() - startTime.getTime();
+  let timeDiff = elapsedMilliseconds;
 
   //convert time difference from ms to seconds
   timeDiff = timeDiff / 1000;
@@ -226,6 +249,8 @@ type AudioRecorder = {
   streamBeingCaptured: MediaStream | null;
   start: () => Promise<void>;
   stop: () => Promise<unknown>;
+  pause: () => void;
+  resume: () => void;
   cancel: () => void;
   stopStream: () => void;
   resetRecordingProperties: () => void;
@@ -310,6 +335,14 @@ export const audioRecorder: AudioRecorder = {
       audioRecorder.cancel();
     });
   },
+  /** Pause the audio recording, the stream keeps being captured*/
+  pause: function () {
+    if (audioRecorder.mediaRecorder?.state === 'recording') audioRecorder.mediaRecorder.pause();
+  },
+  /** Resume the paused audio recording*/
+  resume: function () {
+    if (audioRecorder.mediaRecorder?.state === 'paused') audioRecorder.mediaRecorder.resume();
+  },
   /** Cancel audio recording*/
   cancel: function () {
     //stop the recording feature
@@ -0,0 +1,46 @@
+import type { BotControls } from '@/components/Bot';
+
+export type WidgetControls = Omit<BotControls, 'importConversation'> & {
+  /** Resolves once the conversation is restored, rejects when the transcript is invalid */
+  importConversation: (...args: Parameters<BotControls['importConversation']>) => Promise<void>;
+  open: () => void;
+  close: () => void;
+  toggle: () => void;
+};
+
+/** The <flowise-chatbot> / <flowise-fullchatbot> element, with the controls attached by its component */
+export type WidgetElement = HTMLElement & {
+  widgetControls?: WidgetControls;
+};
+
+/**
+ * Holds the controls registered by the Bot component.
+ * Calls made before the Bot is mounted (the bubble only mounts it once opened) are queued and replayed on registration.
+ */
+export const createBotControlsQueue = () => {
+  let controls: BotControls | undefined;
+  let pendingCalls: ((controls: BotControls) => void)[] = [];
+
+  const register = (botControls: BotControls | undefined) => {
+    controls = botControls;
+    if (!botControls) return;
+    const calls = pendingCalls;
+    pendingCalls = [];
+    calls.forEach((call) => call(botControls));
+  };
+
+  const run = <T>(call: (controls: BotControls) => T) =>
+    new Promise<T>((resolve, reject) => {
+      const invoke = (botControls: BotControls) => {
+        try {
+          resolve(call(botControls));
+        } catch (error) {
+          reject(error);
+        }
+      };
+      if (controls) invoke(controls);
+      else pendingCalls.push(invoke);
+    });
+
+  return { register, run };
+};
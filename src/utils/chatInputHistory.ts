@@ -1,8 +1,7 @@
 // src/utils/chatInputHistory.ts
-type ChatHistoryStorage = {
-  getItem(key: string): string | null;
-  setItem(key: string, value: string): void;
-};
+import type { ChatStorage } from './chatStorage';
+
+type ChatHistoryStorage = Pick<ChatStorage, 'getItem' | 'setItem'>;
 
 export class ChatInputHistory {
   private history: string[] = [];
@@ -13,6 +12,7 @@ export class ChatInputHistory {
   constructor(
     private getMaxHistory: () => number = () => 10,
     private storage: ChatHistoryStorage = localStorage,
+    private storageKey = 'chatInputHistory',
   ) {
     this.maxHistory = this.getMaxHistory() ?? 10;
     this.loadHistory();
@@ -65,22 +65,25 @@ export class ChatInputHistory {
   }
 
   private saveHistory(): void {
-    try {
-      this.storage.setItem('chatInputHistory', JSON.stringify(this.history));
-    } catch (error: unknown) {
-      console.warn('Failed to save chat history to localStorage:', error instanceof Error ? error.message : error);
-    }
+    Promise.resolve()
+      .then(() => this.storage.setItem(this.storageKey, JSON.stringify(this.history)))
+      .catch((error: unknown) => {
+        console.warn('Failed to save chat history to storage:', error instanceof Error ? error.message : error);
+      });
   }
 
   private loadHistory(): void {
-    try {
-      const saved = this.storage.getItem('chatInputHistory');
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        this.history = Array.isArray(parsed) ? parsed : [];
-      }
-    } catch (error: unknown) {
-      console.warn('Failed to load chat history from localStorage:', error instanceof Error ? error.message : error);
-    }
+    Promise.resolve()
+      .then(() => this.storage.getItem(this.storageKey))
+      .then((saved) => {
+        // inputs added while an asynchronous storage was loading come first
+        if (saved) {
+          const parsed = JSON.parse(saved);
+          if (Array.isArray(parsed)) this.history = [...this.history, ...parsed].slice(0, this.maxHistory);
+        }
+      })
+      .catch((error: unknown) => {
+        console.warn('Failed to load chat history from storage:', error instanceof Error ? error.message : error);
+      });
   }
 }
@@ -0,0 +1,140 @@
+/**
+ * Where the widget keeps chat history, leads and input history.
+ * Methods may return promises, so asynchronous backends such as IndexedDB or a remote store can be plugged in.
+ */
+export type ChatStorage = {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+};
+
+export type ChatStorageType = 'localStorage' | 'sessionStorage' | 'indexedDB' | 'memory';
+
+export type ChatStorageOption = ChatStorageType | ChatStorage;
+
+/** Synchronous view of a storage, as read while rendering */
+export type SyncChatStorage = {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+};
+
+export const createMemoryStorage = (): ChatStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+/**
+ * Web storage is not always usable, e.g. in iframes with third party storage blocked, accessing it throws.
+ * Falls back to memory so the chat keeps working for the current page.
+ */
+const createWebStorage = (getStorage: () => Storage): ChatStorage => {
+  try {
+    const storage = getStorage();
+    const testKey = '__flowise_storage_test__';
+    storage.setItem(testKey, testKey);
+    storage.removeItem(testKey);
+    return storage;
+  } catch (error) {
+    console.warn('Web storage is not available, chat history will only be kept in memory:', error instanceof Error ? error.message : error);
+    return createMemoryStorage();
+  }
+};
+
+export const createIndexedDBStorage = (dbName = 'flowise-chatbot', storeName = 'chats'): ChatStorage => {
+  let database: Promise<IDBDatabase> | undefined;
+
+  const openDatabase = () => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return database;
+  };
+
+  const runRequest = async <T>(mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const request = createRequest(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    getItem: async (key) => (await runRequest<string | undefined>('readonly', (store) => store.get(key))) ?? null,
+    setItem: async (key, value) => {
+      await runRequest('readwrite', (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await runRequest('readwrite', (store) => store.delete(key));
+    },
+  };
+};
+
+export const resolveChatStorage = (option: ChatStorageOption = 'localStorage'): ChatStorage => {
+  if (typeof option === 'object') return option;
+  switch (option) {
+    case 'sessionStorage':
+      return createWebStorage(() => sessionStorage);
+    case 'indexedDB':
+      if (typeof indexedDB === 'undefined') return createMemoryStorage();
+      return createIndexedDBStorage();
+    case 'memory':
+      return createMemoryStorage();
+    default:
+      return createWebStorage(() => localStorage);
+  }
+};
+
+export type CachedChatStorage = SyncChatStorage & { load: (key: string) => Promise<void> };
+
+/**
+ * Serves reads from memory so the chat can render synchronously, and writes through to the backing storage.
+ * Keys must be loaded before they are read. A failed write, e.g. when the storage quota is exceeded, is passed to onWriteError.
+ */
+export const createCachedChatStorage = (storage: ChatStorage, onWriteError?: (error: unknown) => void): CachedChatStorage => {
+  const cache = new Map<string, string | null>();
+
+  const write = (operation: () => void | Promise<void>) => {
+    Promise.resolve()
+      .then(operation)
+      .catch((error) => {
+        console.warn('Failed to save chat to storage:', error instanceof Error ? error.message : error);
+        onWriteError?.(error);
+      });
+  };
+
+  return {
+    load: async (key) => {
+      try {
+        const value = await storage.getItem(key);
+        // anything written while loading is newer
+        if (!cache.has(key)) cache.set(key, value);
+      } catch (error) {
+        console.warn('Failed to load chat from storage:', error instanceof Error ? error.message : error);
+      }
+    },
+    getItem: (key) => cache.get(key) ?? null,
+    setItem: (key, value) => {
+      cache.set(key, value);
+      write(() => storage.setItem(key, value));
+    },
+    removeItem: (key) => {
+      cache.set(key, null);
+      write(() => storage.removeItem(key));
+    },
+  };
+};
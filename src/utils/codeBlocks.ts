@@ -0,0 +1,196 @@
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import c from 'highlight.js/lib/languages/c';
+import cpp from 'highlight.js/lib/languages/cpp';
+import csharp from 'highlight.js/lib/languages/csharp';
+import css from 'highlight.js/lib/languages/css';
+import diff from 'highlight.js/lib/languages/diff';
+import go from 'highlight.js/lib/languages/go';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import kotlin from 'highlight.js/lib/languages/kotlin';
+import markdown from 'highlight.js/lib/languages/markdown';
+import php from 'highlight.js/lib/languages/php';
+import python from 'highlight.js/lib/languages/python';
+import ruby from 'highlight.js/lib/languages/ruby';
+import rust from 'highlight.js/lib/languages/rust';
+import shell from 'highlight.js/lib/languages/shell';
+import sql from 'highlight.js/lib/languages/sql';
+import swift from 'highlight.js/lib/languages/swift';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+
+// bundled rather than loaded from a CDN, only the common languages to keep the widget small
+const languages = {
+  bash,
+  c,
+  cpp,
+  csharp,
+  css,
+  diff,
+  go,
+  java,
+  javascript,
+  json,
+  kotlin,
+  markdown,
+  php,
+  python,
+  ruby,
+  rust,
+  shell,
+  sql,
+  swift,
+  typescript,
+  xml,
+  yaml,
+};
+Object.entries(languages).forEach(([name, language]) => hljs.registerLanguage(name, language));
+
+const fileExtensions: Record<string, string> = {
+  bash: 'sh',
+  c: 'c',
+  cpp: 'cpp',
+  csharp: 'cs',
+  css: 'css',
+  diff: 'diff',
+  go: 'go',
+  java: 'java',
+  javascript: 'js',
+  json: 'json',
+  kotlin: 'kt',
+  markdown: 'md',
+  php: 'php',
+  python: 'py',
+  ruby: 'rb',
+  rust: 'rs',
+  shell: 'sh',
+  sql: 'sql',
+  swift: 'swift',
+  typescript: 'ts',
+  xml: 'xml',
+  html: 'html',
+  yaml: 'yml',
+};
+
+export type CodeBlockAction = 'copy' | 'download' | 'wrap';
+
+export type CodeBlockTitles = Record<CodeBlockAction, string>;
+
+/** Set on a copy button for a moment after it was clicked, patching an answer that is rendered again keeps it */
+export const copiedClass = 'copied';
+
+const defaultTitles: CodeBlockTitles = { copy: 'Copy code', download: 'Download', wrap: 'Toggle line wrapping' };
+
+const copyIcon = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M8 8m0 2a2 2 0 0 1 2 -2h8a2 2 0 0 1 2 2v8a2 2 0 0 1 -2 2h-8a2 2 0 0 1 -2 -2z" /><path d="M16 8v-2a2 2 0 0 0 -2 -2h-8a2 2 0 0 0 -2 2v8a2 2 0 0 0 2 2h2" /></svg>`;
+const downloadIcon = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M4 17v2a2 2 0 0 0 2 2h12a2 2 0 0 0 2 -2v-2" /><path d="M7 11l5 5l5 -5" /><path d="M12 4l0 12" /></svg>`;
+const wrapIcon = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M4 6l16 0" /><path d="M4 18l5 0" /><path d="M4 12h13a3 3 0 0 1 0 6h-4l2 -2m0 4l-2 -2" /></svg>`;
+
+/** The language named on the fence, as Marked puts it on the code element */
+const getFenceLanguage = (code: Element) =>
+  Array.from(code.classList)
+    .find((className) => className.startsWith('lang-'))
+    ?.slice('lang-'.length)
+    .toLowerCase() ?? '';
+
+/**
+ * File extension for code in the given fence language, aliases such as `py` or `ts` included
+ */
+export const getCodeFileExtension = (language: string) => {
+  if (fileExtensions[language]) return fileExtensions[language];
+  const name = hljs.getLanguage(language)?.name;
+  const canonical = name ? Object.keys(languages).find((key) => hljs.getLanguage(key)?.name === name) : undefined;
+  if (canonical) return fileExtensions[canonical];
+  return /^[a-z0-9]{1,5}$/.test(language) ? language : 'txt';
+};
+
+const createToolbarButton = (action: CodeBlockAction, title: string, icon: string) => {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'code-block-button';
+  button.title = title;
+  button.dataset.codeAction = action;
+  button.innerHTML = icon;
+  return button;
+};
+
+/**
+ * Highlights the fenced code blocks of rendered markdown and gives each one a toolbar.
+ * The toolbar buttons only carry a `data-code-action`, clicks are handled by handleCodeBlockClick on a parent,
+ * so the blocks can be rendered again while an answer streams in.
+ */
+export const enhanceCodeBlocks = (container: ParentNode, wrappedBlocks: number[] = [], titles = defaultTitles) => {
+  container.querySelectorAll('pre > code').forEach((code, index) => {
+    const pre = code.parentElement as HTMLElement;
+    const language = getFenceLanguage(code);
+    const text = code.textContent ?? '';
+    if (language && hljs.getLanguage(language)) {
+      code.innerHTML = hljs.highlight(text, { language, ignoreIllegals: true }).value;
+    }
+    code.classList.add('hljs');
+
+    const block = document.createElement('div');
+    block.className = 'code-block';
+    block.dataset.codeIndex = String(index);
+    block.dataset.codeLanguage = language;
+    if (wrappedBlocks.includes(index)) block.classList.add('wrapped');
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'code-block-toolbar';
+    // shown from CSS, so copying the whole message does not pick up the label
+    toolbar.dataset.label = language || 'code';
+    toolbar.append(
+      createToolbarButton('wrap', titles.wrap, wrapIcon),
+      createToolbarButton('download', titles.download, downloadIcon),
+      createToolbarButton('copy', titles.copy, copyIcon),
+    );
+
+    pre.replaceWith(block);
+    block.append(toolbar, pre);
+  });
+};
+
+const downloadCode = (code: string, language: string) => {
+  const url = URL.createObjectURL(new Blob([code], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `code.${getCodeFileExtension(language)}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url));
+};
+
+/**
+ * Runs the code block action that was clicked, if any.
+ * Line wrapping is left to onWrapToggle when given, for blocks that are rendered again as an answer streams in.
+ */
+export const handleCodeBlockClick = (event: MouseEvent, onWrapToggle?: (index: number) => void) => {
+  const button = (event.target as Element | null)?.closest<HTMLElement>('[data-code-action]');
+  const block = button?.closest<HTMLElement>('.code-block');
+  if (!button || !block) return;
+  const code = block.querySelector('code')?.textContent ?? '';
+  // Marked ends every block with a line break
+  const trimmedCode = code.endsWith('\n') ? code.slice(0, -1) : code;
+
+  switch (button.dataset.codeAction as CodeBlockAction) {
+    case 'copy':
+      navigator.clipboard
+        .writeText(trimmedCode)
+        .then(() => {
+          button.classList.add(copiedClass);
+          setTimeout(() => button.classList.remove(copiedClass), 2000);
+        })
+        .catch((error) => console.error('Error copying to clipboard:', error));
+      break;
+    case 'download':
+      downloadCode(trimmedCode, block.dataset.codeLanguage ?? '');
+      break;
+    case 'wrap':
+      if (onWrapToggle) onWrapToggle(Number(block.dataset.codeIndex));
+      else block.classList.toggle('wrapped');
+      break;
+  }
+};
@@ -0,0 +1,44 @@
+import type { MessageType } from '@/components/Bot';
+import type { SyncChatStorage } from './chatStorage';
+
+export type SavedLead = {
+  name?: string;
+  email?: string;
+  phone?: string;
+};
+
+/** A conversation kept aside while another one is active */
+export type SavedConversation = {
+  chatId: string;
+  title?: string; // set when renamed, otherwise derived from the first question
+  updatedAt: string;
+  chatHistory: MessageType[];
+  lead?: SavedLead;
+};
+
+export const getConversationsStorageKey = (storageId: string) => `${storageId}_CONVERSATIONS`;
+
+export const getSavedConversations = (storageId: string, storage: SyncChatStorage): SavedConversation[] => {
+  const conversations = storage.getItem(getConversationsStorageKey(storageId));
+  if (!conversations) return [];
+  try {
+    const parsed = JSON.parse(conversations);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const setSavedConversations = (storageId: string, conversations: SavedConversation[], storage: SyncChatStorage) => {
+  storage.setItem(getConversationsStorageKey(storageId), JSON.stringify(conversations));
+};
+
+/**
+ * The title to show for a conversation, the fallback is used until a question is asked
+ */
+export const getConversationTitle = (title: string | undefined, chatHistory: MessageType[], fallbackTitle: string) => {
+  if (title) return title;
+  const firstQuestion = chatHistory.find((message) => message.type === 'userMessage')?.message.trim();
+  if (!firstQuestion) return fallbackTitle;
+  return firstQuestion.length > 60 ? `${firstQuestion.slice(0, 60)}…` : firstQuestion;
+};
@@ -1,3 +1,5 @@
+import type { CachedChatStorage, SyncChatStorage } from './chatStorage';
+
 export const isNotDefined = <T>(value: T | undefined | null): value is undefined | null => value === undefined || value === null;
 
 export const isDefined = <T>(value: T | undefined | null): value is NonNullable<T> => value !== undefined && value !== null;
@@ -6,6 +8,37 @@ export const isEmpty = (value: string | undefined | null): value is undefined =>
 
 export const isNotEmpty = (value: string | undefined | null): value is string => value !== undefined && value !== null && value !== '';
 
+/**
+ * Builds the request and lets the host customise it (auth headers, credentials, signed tokens) before it is sent
+ */
+export const prepareRequest = async ({
+  method,
+  headers,
+  body,
+  signal,
+  onRequest,
+}: {
+  method: string;
+  headers?: Record<string, any>;
+  body?: string | FormData;
+  signal?: AbortSignal;
+  onRequest?: (request: RequestInit) => Promise<void>;
+}): Promise<RequestInit> => {
+  const requestInfo: RequestInit = {
+    method,
+    mode: 'cors',
+    headers,
+    body,
+    signal,
+  };
+
+  if (onRequest) {
+    await onRequest(requestInfo);
+  }
+
+  return requestInfo;
+};
+
 export const sendRequest = async <ResponseData>(
   params:
     | {
@@ -15,6 +48,7 @@ export const sendRequest = async <ResponseData>(
         type?: string;
         headers?: Record<string, any>;
         formData?: FormData;
+        signal?: AbortSignal;
         onRequest?: (request: RequestInit) => Promise<void>;
       }
     | string,
@@ -31,16 +65,13 @@ export const sendRequest = async <ResponseData>(
     let body: string | FormData | undefined = typeof params !== 'string' && isDefined(params.body) ? JSON.stringify(params.body) : undefined;
     if (typeof params !== 'string' && params.formData) body = params.formData;
 
-    const requestInfo: RequestInit = {
+    const requestInfo = await prepareRequest({
       method: typeof params === 'string' ? 'GET' : params.method,
-      mode: 'cors',
       headers,
       body,
-    };
-
-    if (typeof params !== 'string' && params.onRequest) {
-      await params.onRequest(requestInfo);
-    }
+      signal: typeof params !== 'string' ? params.signal : undefined,
+      onRequest: typeof params !== 'string' ? params.onRequest : undefined,
+    });
 
     const response = await fetch(url, requestInfo);
 
@@ -72,27 +103,71 @@ export const sendRequest = async <ResponseData>(
   }
 };
 
-export const setLocalStorageChatflow = (chatflowid: string, chatId: string, saveObj: Record<string, any> = {}) => {
-  const chatDetails = localStorage.getItem(`${chatflowid}_EXTERNAL`);
+/**
+ * Identifies the persisted chat of a chatflow, prefixed with the instance id when several widgets share a page
+ */
+export const getChatflowStorageId = (chatflowid: string, instanceId?: string) => (instanceId ? `${instanceId}_${chatflowid}` : chatflowid);
+
+/**
+ * Exponential backoff with jitter, so clients that dropped together do not reconnect together
+ */
+export const getRetryDelay = (attempt: number, baseDelay: number, maxDelay: number) => {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
+
+/**
+ * The message a failed response explains itself with, read the same way as sendRequest reads JSON errors
+ */
+export const getResponseErrorMessage = async (response: Response) => {
+  const text = await response.text();
+  try {
+    const data = JSON.parse(text);
+    if (typeof data === 'object' && data) return String(data.error ?? data.message ?? text);
+  } catch (e) {
+    // not JSON, the body is the message
+  }
+  return text;
+};
+
+export const dataURLToFile = (dataURL: string, name: string, mime: string) => {
+  const binary = atob(dataURL.split(',')[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new File([bytes], name, { type: mime });
+};
+
+export const setLocalStorageChatflow = (
+  chatflowid: string,
+  chatId: string,
+  saveObj: Record<string, any> = {},
+  storage: SyncChatStorage = localStorage,
+) => {
+  const chatDetails = storage.getItem(`${chatflowid}_EXTERNAL`);
   const obj = { ...saveObj };
   if (chatId) obj.chatId = chatId;
 
   if (!chatDetails) {
-    localStorage.setItem(`${chatflowid}_EXTERNAL`, JSON.stringify(obj));
+    storage.setItem(`${chatflowid}_EXTERNAL`, JSON.stringify(obj));
   } else {
     try {
       const parsedChatDetails = JSON.parse(chatDetails);
-      localStorage.setItem(`${chatflowid}_EXTERNAL`, JSON.stringify({ ...parsedChatDetails, ...obj }));
+      storage.setItem(`${chatflowid}_EXTERNAL`, JSON.stringify({ ...parsedChatDetails, ...obj }));
     } catch (e) {
       const chatId = chatDetails;
       obj.chatId = chatId;
-      localStorage.setItem(`${chatflowid}_EXTERNAL`, JSON.stringify(obj));
+      storage.setItem(`${chatflowid}_EXTERNAL`, JSON.stringify(obj));
     }
   }
 };
 
-export const getLocalStorageChatflow = (chatflowid: string) => {
-  const chatDetails = localStorage.getItem(`${chatflowid}_EXTERNAL`);
+/** Loads the chat record of an asynchronous storage into its cache, before it is read */
+export const loadChatflowStorage = (chatflowid: string, storage: CachedChatStorage) => storage.load(`${chatflowid}_EXTERNAL`);
+
+export const getLocalStorageChatflow = (chatflowid: string, storage: SyncChatStorage = localStorage) => {
+  const chatDetails = storage.getItem(`${chatflowid}_EXTERNAL`);
   if (!chatDetails) return {};
   try {
     return JSON.parse(chatDetails);
@@ -101,18 +176,18 @@ export const getLocalStorageChatflow = (chatflowid: string) => {
   }
 };
 
-export const removeLocalStorageChatHistory = (chatflowid: string) => {
-  const chatDetails = localStorage.getItem(`${chatflowid}_EXTERNAL`);
+export const removeLocalStorageChatHistory = (chatflowid: string, storage: SyncChatStorage = localStorage) => {
+  const chatDetails = storage.getItem(`${chatflowid}_EXTERNAL`);
   if (!chatDetails) return;
   try {
     const parsedChatDetails = JSON.parse(chatDetails);
     if (parsedChatDetails.lead) {
       // Dont remove lead when chat is cleared
       const obj = { lead: parsedChatDetails.lead };
-      localStorage.removeItem(`${chatflowid}_EXTERNAL`);
-      localStorage.setItem(`${chatflowid}_EXTERNAL`, JSON.stringify(obj));
+      storage.removeItem(`${chatflowid}_EXTERNAL`);
+      storage.setItem(`${chatflowid}_EXTERNAL`, JSON.stringify(obj));
     } else {
-      localStorage.removeItem(`${chatflowid}_EXTERNAL`);
+      storage.removeItem(`${chatflowid}_EXTERNAL`);
     }
   } catch (e) {
     return;
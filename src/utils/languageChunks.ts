@@ -0,0 +1,42 @@
+export type ChunkLanguage = 'ar-XA' | 'en-US';
+
+export type LanguageChunk = { text: string; lang: ChunkLanguage };
+
+/**
+ * Detects if text contains Arabic characters.
+ */
+export function detectLanguage(text: string): ChunkLanguage {
+  // Simple check for Arabic characters
+  return /[\u0600-\u06FF]/.test(text) ? 'ar-XA' : 'en-US';
+}
+
+/**
+ * The direction of the first strongly directional character of the text, e.g. while the user types.
+ * Undefined when there is none yet, so the layout direction can be used instead.
+ */
+export function detectTextDirection(text: string): 'ltr' | 'rtl' | undefined {
+  const strongCharacter = text.match(/[A-Za-z\u00C0-\u02AF\u0370-\u058F]|[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/)?.[0];
+  if (!strongCharacter) return undefined;
+  return /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/.test(strongCharacter) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Splits a single text string into language chunks based on detected script.
+ * Used for bidi wrapping of rendered answers and for switching voices when they are read aloud.
+ */
+export function splitTextNodeByLanguage(text: string): LanguageChunk[] {
+  // Regex explanation: Match sequences of Arabic chars OR sequences of non-Arabic chars.
+  // This is simpler than the previous complex regex and aims to group based on script blocks.
+  const segments = text.match(/[\u0600-\u06FF]+|[^\u0600-\u06FF]+/g) || [];
+  const chunks: LanguageChunk[] = [];
+
+  segments.forEach((segment) => {
+    if (segment) {
+      // Ensure segment is not empty
+      const lang = detectLanguage(segment);
+      chunks.push({ text: segment, lang: lang });
+    }
+  });
+  // console.log("Split Text Node:", text, "-> Chunks:", chunks); // Debugging
+  return chunks;
+}
@@ -0,0 +1,44 @@
+import type { FilePreview, IAction } from '@/components/Bot';
+import type { SyncChatStorage } from './chatStorage';
+
+/** A question typed while offline, kept on the device until it can be sent */
+export type OutboxMessage = {
+  id: string;
+  message: string;
+  action?: IAction | null;
+  previews: FilePreview[];
+  uploadedFiles: { name: string; type: string }[];
+  dateTime: string;
+};
+
+// a file shown from its data url is only stored once, the preview is read back from the data
+type SavedOutboxMessage = Omit<OutboxMessage, 'previews'> & { previews: (Omit<FilePreview, 'preview'> & { preview?: string })[] };
+
+export const getOutboxStorageKey = (storageId: string) => `${storageId}_OUTBOX`;
+
+export const getSavedOutbox = (storageId: string, storage: SyncChatStorage): OutboxMessage[] => {
+  const outbox = storage.getItem(getOutboxStorageKey(storageId));
+  if (!outbox) return [];
+  try {
+    const parsed: SavedOutboxMessage[] = JSON.parse(outbox);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map((pendingMessage) => ({
+      ...pendingMessage,
+      previews: pendingMessage.previews.map(({ preview, ...item }) => ({ ...item, preview: preview ?? (item.data as string) })),
+    }));
+  } catch (e) {
+    return [];
+  }
+};
+
+export const setSavedOutbox = (storageId: string, outbox: OutboxMessage[], storage: SyncChatStorage) => {
+  if (!outbox.length) {
+    storage.removeItem(getOutboxStorageKey(storageId));
+    return;
+  }
+  const savedOutbox: SavedOutboxMessage[] = outbox.map((pendingMessage) => ({
+    ...pendingMessage,
+    previews: pendingMessage.previews.map(({ preview, ...item }) => (preview === item.data ? item : { ...item, preview })),
+  }));
+  storage.setItem(getOutboxStorageKey(storageId), JSON.stringify(savedOutbox));
+};
@@ -0,0 +1,51 @@
+export const parseHTML = (html: string): DocumentFragment => {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  return template.content;
+};
+
+type PatchOptions = {
+  /** Classes set on the rendered nodes by the user's actions rather than by the source, e.g. copy feedback */
+  keepClasses?: string[];
+};
+
+const patchAttributes = (target: Element, source: Element, options: PatchOptions) => {
+  const keptClasses = (options.keepClasses ?? []).filter((className) => target.classList.contains(className));
+  Array.from(target.attributes).forEach(({ name }) => {
+    if (!source.hasAttribute(name)) target.removeAttribute(name);
+  });
+  Array.from(source.attributes).forEach(({ name, value }) => {
+    if (target.getAttribute(name) !== value) target.setAttribute(name, value);
+  });
+  if (keptClasses.length) target.classList.add(...keptClasses);
+};
+
+const patchNode = (target: ChildNode, source: ChildNode, options: PatchOptions) => {
+  if (target.nodeType !== source.nodeType || target.nodeName !== source.nodeName) {
+    target.replaceWith(source);
+    return;
+  }
+  if (target instanceof Element && source instanceof Element) {
+    patchAttributes(target, source, options);
+    patchChildren(target, source, options);
+  } else if (target.nodeValue !== source.nodeValue) {
+    target.nodeValue = source.nodeValue;
+  }
+};
+
+/**
+ * Updates the children of an element to match the source nodes, which are moved over where they differ.
+ * A streamed answer mostly grows at its end, so the nodes already rendered are kept along with any text selection,
+ * rather than being rebuilt from scratch for every token.
+ */
+export const patchChildren = (target: Node, source: Node, options: PatchOptions = {}) => {
+  const sourceNodes = Array.from(source.childNodes);
+  sourceNodes.forEach((sourceNode, i) => {
+    const targetNode = target.childNodes[i];
+    if (targetNode) patchNode(targetNode, sourceNode, options);
+    else target.appendChild(sourceNode);
+  });
+  while (target.childNodes.length > sourceNodes.length) {
+    target.lastChild?.remove();
+  }
+};
@@ -0,0 +1,55 @@
+import type { MessageType } from '@/components/Bot';
+import type { Prediction, StreamEvent } from '@/queries/streamProtocol';
+
+/**
+ * Applies one response event to the answer being built.
+ * Streamed and complete responses both go through here, so an answer looks the same whichever way it arrived.
+ * The answer is never modified, a changed copy is returned.
+ */
+export const reduceResponse = (answer: MessageType, event: StreamEvent): MessageType => {
+  switch (event.event) {
+    case 'token':
+      if (!event.data) return answer;
+      return { ...answer, message: answer.message + event.data, rating: undefined, dateTime: new Date().toISOString() };
+    case 'sourceDocuments':
+      return { ...answer, sourceDocuments: event.data };
+    case 'usedTools':
+      return { ...answer, usedTools: event.data };
+    case 'fileAnnotations':
+      return { ...answer, fileAnnotations: event.data };
+    case 'agentReasoning':
+      return { ...answer, agentReasoning: event.data };
+    case 'action':
+      return { ...answer, action: event.data };
+    case 'artifacts':
+      return { ...answer, artifacts: event.data };
+    case 'metadata':
+      return {
+        ...answer,
+        // needed for feedback
+        messageId: event.data.chatMessageId ?? answer.messageId,
+        followUpPrompts: event.data.followUpPrompts ?? answer.followUpPrompts,
+      };
+    default:
+      return answer;
+  }
+};
+
+/**
+ * The events a stream would have sent for a complete prediction, a JSON answer is shown as formatted text
+ */
+export const predictionToEvents = (prediction: Prediction): StreamEvent[] => {
+  const { text, json, sourceDocuments, usedTools, fileAnnotations, agentReasoning, action, artifacts, ...metadata } = prediction;
+  const events: StreamEvent[] = [
+    { event: 'start', data: '' },
+    { event: 'token', data: text || (json ? JSON.stringify(json, null, 2) : '') },
+  ];
+  if (agentReasoning) events.push({ event: 'agentReasoning', data: agentReasoning });
+  if (sourceDocuments) events.push({ event: 'sourceDocuments', data: sourceDocuments });
+  if (usedTools) events.push({ event: 'usedTools', data: usedTools });
+  if (fileAnnotations) events.push({ event: 'fileAnnotations', data: fileAnnotations });
+  if (artifacts) events.push({ event: 'artifacts', data: artifacts });
+  if (action) events.push({ event: 'action', data: action });
+  events.push({ event: 'metadata', data: metadata }, { event: 'end', data: '[DONE]' });
+  return events;
+};
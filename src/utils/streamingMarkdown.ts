@@ -0,0 +1,47 @@
+const fencePattern = /^ {0,3}(`{3,}|~{3,})/;
+const tableRowPattern = /^\s*\|/;
+const tableSeparatorPattern = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Returns the fence of a code block left open at the end of the markdown
+ */
+const getOpenFence = (lines: string[]) => {
+  let openFence: string | undefined;
+  lines.forEach((line) => {
+    const fence = fencePattern.exec(line)?.[1];
+    if (!fence) return;
+    if (!openFence) openFence = fence;
+    // a closing fence uses the same character, is at least as long and has no info string
+    else if (fence[0] === openFence[0] && fence.length >= openFence.length && line.trim() === fence) openFence = undefined;
+  });
+  return openFence;
+};
+
+/**
+ * Drops a table still being written at the end of the markdown until it can render as one:
+ * a row waits for its line break, and the header waits for the separator line.
+ * Only tables whose rows start with a pipe are recognised.
+ */
+const holdBackPartialTable = (markdown: string) => {
+  const lines = markdown.split('\n');
+  if (tableRowPattern.test(lines[lines.length - 1])) lines.pop();
+
+  let tableEnd = lines.length;
+  if (lines[tableEnd - 1] === '') tableEnd--;
+  let tableStart = tableEnd;
+  while (tableStart > 0 && tableRowPattern.test(lines[tableStart - 1])) tableStart--;
+  const table = lines.slice(tableStart, tableEnd);
+  if (table.length > 0 && !(table.length > 1 && tableSeparatorPattern.test(table[1]))) return lines.slice(0, tableStart).join('\n');
+  return lines.join('\n');
+};
+
+/**
+ * Keeps a partial answer from changing shape as tokens arrive.
+ * An unfinished code block is closed so it renders as code from its first line,
+ * and an unfinished table is held back rather than shown as plain text first.
+ */
+export const stabilizePartialMarkdown = (markdown: string) => {
+  const openFence = getOpenFence(markdown.split('\n'));
+  if (openFence) return `${markdown}${markdown.endsWith('\n') ? '' : '\n'}${openFence}`;
+  return holdBackPartialTable(markdown);
+};
@@ -0,0 +1,200 @@
+import { Marked } from '@ts-stack/markdown';
+import type { TextToSpeechTheme } from '@/features/bubble/types';
+import { prepareRequest } from './index';
+import { ChunkLanguage, LanguageChunk, splitTextNodeByLanguage } from './languageChunks';
+import { parseHTML } from './patchDOM';
+
+export type SpeechState = 'idle' | 'playing' | 'paused';
+
+/**
+ * Reads text aloud one language chunk at a time, so the voice can change between Arabic and English mid-message.
+ */
+export type TextToSpeechProvider = {
+  /** Resolves once the chunk has been spoken, or right away when stopped */
+  speak(chunk: LanguageChunk, rate: number): Promise<void>;
+  pause(): void;
+  resume(): void;
+  stop(): void;
+};
+
+export const speechRates = [0.75, 1, 1.25, 1.5, 2];
+
+// the chunk languages are Google voice codes, browsers name their voices by plain language tags
+const browserLanguages: Record<ChunkLanguage, string> = {
+  'ar-XA': 'ar',
+  'en-US': 'en',
+};
+
+/**
+ * Speaks with the voices of the browser. A voice can be picked by name per language, otherwise the first one for the language is used.
+ */
+export const createWebSpeechProvider = (voices: TextToSpeechTheme['voices'] = {}): TextToSpeechProvider => {
+  const findVoice = (lang: ChunkLanguage) => {
+    const available = window.speechSynthesis.getVoices();
+    return (
+      available.find((voice) => voice.name === voices[lang]) ??
+      available.find((voice) => voice.lang === lang) ??
+      available.find((voice) => voice.lang.toLowerCase().startsWith(browserLanguages[lang]))
+    );
+  };
+
+  return {
+    speak: (chunk, rate) =>
+      new Promise((resolve, reject) => {
+        const utterance = new SpeechSynthesisUtterance(chunk.text);
+        const voice = findVoice(chunk.lang);
+        if (voice) utterance.voice = voice;
+        utterance.lang = voice?.lang ?? browserLanguages[chunk.lang];
+        utterance.rate = rate;
+        utterance.onend = () => resolve();
+        utterance.onerror = (event) => {
+          // cancelled by stop
+          if (event.error === 'interrupted' || event.error === 'canceled') resolve();
+          else reject(new Error(event.error));
+        };
+        window.speechSynthesis.speak(utterance);
+      }),
+    pause: () => window.speechSynthesis.pause(),
+    resume: () => window.speechSynthesis.resume(),
+    stop: () => window.speechSynthesis.cancel(),
+  };
+};
+
+/**
+ * Speaks with audio from a TTS service. Each chunk is posted as `{ text, language, rate }` and the response body is played.
+ */
+export const createEndpointSpeechProvider = (endpoint: string, onRequest?: (request: RequestInit) => Promise<void>): TextToSpeechProvider => {
+  let audio: HTMLAudioElement | undefined;
+  let finishChunk: (() => void) | undefined;
+  let abortController: AbortController | undefined;
+
+  const stop = () => {
+    abortController?.abort();
+    audio?.pause();
+    finishChunk?.();
+  };
+
+  return {
+    speak: async (chunk, rate) => {
+      abortController = new AbortController();
+      const requestInfo = await prepareRequest({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: chunk.text, language: chunk.lang, rate }),
+        signal: abortController.signal,
+        onRequest,
+      });
+      let response: Response;
+      try {
+        response = await fetch(endpoint, requestInfo);
+      } catch (error) {
+        if (abortController.signal.aborted) return;
+        throw error;
+      }
+      if (!response.ok) throw new Error(`Text to speech request failed with status ${response.status}`);
+      const url = URL.createObjectURL(await response.blob());
+      if (abortController.signal.aborted) return URL.revokeObjectURL(url);
+
+      const chunkAudio = new Audio(url);
+      chunkAudio.playbackRate = rate;
+      audio = chunkAudio;
+      await new Promise<void>((resolve, reject) => {
+        finishChunk = resolve;
+        chunkAudio.onended = () => resolve();
+        chunkAudio.onerror = () => reject(new Error('Unable to play the text to speech audio'));
+        chunkAudio.play().catch(reject);
+      }).finally(() => {
+        finishChunk = undefined;
+        URL.revokeObjectURL(url);
+      });
+    },
+    pause: () => audio?.pause(),
+    resume: () => {
+      audio?.play();
+    },
+    stop,
+  };
+};
+
+export const resolveTextToSpeechProvider = (config: TextToSpeechTheme, onRequest?: (request: RequestInit) => Promise<void>) => {
+  if (config.provider) return config.provider;
+  if (config.endpoint) return createEndpointSpeechProvider(config.endpoint, onRequest);
+  if (typeof window !== 'undefined' && 'speechSynthesis' in window) return createWebSpeechProvider(config.voices);
+  return undefined;
+};
+
+/**
+ * The text of an answer as it should be read: markdown is rendered to text and code blocks are left out
+ */
+export const toSpeechText = (markdown: string) => {
+  const content = parseHTML(Marked.parse(markdown));
+  content.querySelectorAll('pre').forEach((pre) => pre.remove());
+  return (content.textContent ?? '').replace(/\s+/g, ' ').trim();
+};
+
+const hasLetters = (text: string) => /\p{L}/u.test(text);
+const hasWords = (text: string) => /[\p{L}\p{N}]/u.test(text);
+
+/**
+ * Splits text into the chunks to speak. Spaces, numbers and punctuation between words of another script
+ * stay with the chunk before them, so an Arabic sentence is not cut at every space.
+ */
+export const toSpeechChunks = (text: string): LanguageChunk[] =>
+  splitTextNodeByLanguage(text)
+    .reduce<LanguageChunk[]>((chunks, chunk) => {
+      const previous = chunks[chunks.length - 1];
+      if (previous && (previous.lang === chunk.lang || !hasLetters(chunk.text))) {
+        previous.text += chunk.text;
+      } else {
+        chunks.push({ ...chunk });
+      }
+      return chunks;
+    }, [])
+    .filter((chunk) => hasWords(chunk.text));
+
+/**
+ * Plays one text at a time through a provider, starting another text stops the current one
+ */
+export const createSpeechPlayer = (provider: TextToSpeechProvider, onStateChange: (state: SpeechState) => void) => {
+  // bumped on every play and stop, so a stopped playback does not go on with its next chunk
+  let session = 0;
+  let rate = 1;
+
+  const stop = () => {
+    session++;
+    provider.stop();
+    onStateChange('idle');
+  };
+
+  return {
+    play: async (text: string) => {
+      stop();
+      const current = session;
+      onStateChange('playing');
+      try {
+        for (const chunk of toSpeechChunks(text)) {
+          if (current !== session) return;
+          await provider.speak(chunk, rate);
+        }
+      } catch (error) {
+        console.error('Text to speech failed:', error);
+      }
+      if (current === session) onStateChange('idle');
+    },
+    pause: () => {
+      provider.pause();
+      onStateChange('paused');
+    },
+    resume: () => {
+      provider.resume();
+      onStateChange('playing');
+    },
+    stop,
+    // applies from the next chunk
+    setRate: (value: number) => {
+      rate = value;
+    },
+  };
+};
+
+export type SpeechPlayer = ReturnType<typeof createSpeechPlayer>;
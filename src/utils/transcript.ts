@@ -0,0 +1,290 @@
+import { z } from 'zod';
+import type { FeedbackRatingType } from '@/queries/sendMessageQuery';
+import type { IAgentReasoning, MessageType } from '@/components/Bot';
+import type { Translations } from '@/i18n';
+
+/** Bumped whenever the JSON layout changes, so older exports can still be read */
+export const TRANSCRIPT_VERSION = 2;
+
+export type TranscriptFormat = 'markdown' | 'json' | 'text' | 'html';
+
+export type TranscriptMessage = {
+  type: 'apiMessage' | 'userMessage';
+  message: string;
+  messageId?: string;
+  dateTime?: string;
+  rating?: FeedbackRatingType;
+  fileUploads?: { name?: string; mime?: string; type?: string }[];
+  sourceDocuments?: { pageContent?: string; metadata?: Record<string, unknown> }[];
+  usedTools?: { tool?: string; toolInput?: unknown; toolOutput?: unknown }[];
+  agentReasoning?: Pick<IAgentReasoning, 'agentName' | 'messages' | 'instructions' | 'nextAgent'>[];
+  followUpPrompts?: string;
+  // since version 2
+  fileAnnotations?: { fileName?: string; fileId?: string }[];
+  artifacts?: { type?: string; data?: string }[];
+  action?: Record<string, unknown> | null;
+};
+
+export type Transcript = {
+  version: number;
+  chatflowid: string;
+  chatId: string;
+  title?: string;
+  exportedAt: string;
+  messages: TranscriptMessage[];
+};
+
+export const createTranscript = ({
+  chatflowid,
+  chatId,
+  title,
+  messages,
+}: {
+  chatflowid: string;
+  chatId: string;
+  title?: string;
+  messages: MessageType[];
+}): Transcript => ({
+  version: TRANSCRIPT_VERSION,
+  chatflowid,
+  chatId,
+  title,
+  exportedAt: new Date().toISOString(),
+  messages: messages
+    .filter((message) => message.type === 'apiMessage' || message.type === 'userMessage')
+    .map((message) => ({
+      type: message.type as TranscriptMessage['type'],
+      message: message.message,
+      messageId: message.messageId ?? message.id,
+      dateTime: message.dateTime,
+      rating: message.rating,
+      // uploads are listed by name only, their content stays with Flowise
+      fileUploads: message.fileUploads?.map(({ name, mime, type }) => ({ name, mime, type })),
+      sourceDocuments: message.sourceDocuments?.map((doc) => ({ pageContent: doc.pageContent, metadata: doc.metadata })),
+      usedTools: message.usedTools?.map((tool) => ({ tool: tool.tool, toolInput: tool.toolInput, toolOutput: tool.toolOutput })),
+      agentReasoning: message.agentReasoning?.map(({ agentName, messages, instructions, nextAgent }) => ({
+        agentName,
+        messages,
+        instructions,
+        nextAgent,
+      })),
+      followUpPrompts: message.followUpPrompts,
+      fileAnnotations: message.fileAnnotations?.map(({ fileName, fileId }) => ({ fileName, fileId })),
+      artifacts: message.artifacts?.map(({ type, data }) => ({ type, data })),
+      action: message.action,
+    })),
+});
+
+const TranscriptMessageSchema = z.object({
+  type: z.enum(['apiMessage', 'userMessage']),
+  message: z.string(),
+  messageId: z.string().optional(),
+  dateTime: z.string().optional(),
+  rating: z.enum(['THUMBS_UP', 'THUMBS_DOWN']).optional(),
+  fileUploads: z.array(z.object({ name: z.string().optional(), mime: z.string().optional(), type: z.string().optional() })).optional(),
+  sourceDocuments: z.array(z.object({ pageContent: z.string().optional(), metadata: z.record(z.unknown()).optional() })).optional(),
+  usedTools: z.array(z.object({ tool: z.string().optional(), toolInput: z.unknown(), toolOutput: z.unknown() })).optional(),
+  agentReasoning: z
+    .array(
+      z.object({
+        agentName: z.string().optional(),
+        messages: z.array(z.string()).optional(),
+        instructions: z.string().optional(),
+        nextAgent: z.string().optional(),
+      }),
+    )
+    .optional(),
+  followUpPrompts: z.string().optional(),
+  fileAnnotations: z.array(z.object({ fileName: z.string().optional(), fileId: z.string().optional() })).optional(),
+  artifacts: z.array(z.object({ type: z.string().optional(), data: z.string().optional() })).optional(),
+  action: z.record(z.unknown()).nullable().optional(),
+});
+
+const TranscriptSchema = z.object({
+  version: z.number().int().min(1).max(TRANSCRIPT_VERSION, 'Exported by a newer version of the chatbot'),
+  chatflowid: z.string(),
+  chatId: z.string().min(1, 'Missing chatId'),
+  title: z.string().optional(),
+  exportedAt: z.string(),
+  messages: z.array(TranscriptMessageSchema),
+});
+
+/**
+ * Validates an exported JSON transcript, given as text or already parsed
+ */
+export const parseTranscript = (input: unknown): Transcript => {
+  let data = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch (e) {
+      throw new Error('The file is not valid JSON');
+    }
+  }
+
+  const res = TranscriptSchema.safeParse(data);
+  if (!res.success) {
+    const issue = res.error.issues[0];
+    throw new Error(`Invalid transcript at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  return res.data;
+};
+
+const getSpeaker = (message: TranscriptMessage, translations: Translations) =>
+  message.type === 'userMessage' ? translations.transcriptUser : translations.transcriptBot;
+
+const formatDateTime = (dateTime?: string) => (dateTime ? new Date(dateTime).toLocaleString() : '');
+
+const stringify = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+const getSourceName = (doc: NonNullable<TranscriptMessage['sourceDocuments']>[number]) =>
+  stringify(doc.metadata?.source ?? doc.pageContent?.slice(0, 80) ?? '');
+
+const getAgentText = (agent: NonNullable<TranscriptMessage['agentReasoning']>[number], translations: Translations) =>
+  agent.instructions || (agent.messages ?? []).join('\n') || translations.agentFinished;
+
+export const transcriptToMarkdown = (transcript: Transcript, translations: Translations) => {
+  const lines = [
+    `# ${transcript.title ?? translations.transcriptTitle}`,
+    '',
+    `${translations.transcriptChatId}: ${transcript.chatId}`,
+    `${translations.transcriptExported}: ${formatDateTime(transcript.exportedAt)}`,
+    '',
+  ];
+  transcript.messages.forEach((message) => {
+    lines.push(`## ${getSpeaker(message, translations)}${message.dateTime ? ` · ${formatDateTime(message.dateTime)}` : ''}`, '', message.message, '');
+    if (message.fileUploads?.length) {
+      lines.push(`**${translations.transcriptAttachments}**`, ...message.fileUploads.map((file) => `- ${file.name}`), '');
+    }
+    if (message.agentReasoning?.length) {
+      lines.push(
+        `**${translations.agentMessages}**`,
+        ...message.agentReasoning.map((agent) => `- ${agent.agentName ?? translations.transcriptAgent}: ${getAgentText(agent, translations)}`),
+        '',
+      );
+    }
+    if (message.usedTools?.length) {
+      lines.push(
+        `**${translations.transcriptToolsUsed}**`,
+        ...message.usedTools.map((tool) => `- \`${tool.tool}\` ${stringify(tool.toolInput ?? '')}`),
+        '',
+      );
+    }
+    if (message.sourceDocuments?.length) {
+      lines.push(`**${translations.transcriptSources}**`, ...message.sourceDocuments.map((doc) => `- ${getSourceName(doc)}`), '');
+    }
+  });
+  return lines.join('\n');
+};
+
+export const transcriptToText = (transcript: Transcript, translations: Translations) => {
+  const lines = [
+    transcript.title ?? translations.transcriptTitle,
+    `${translations.transcriptChatId}: ${transcript.chatId}`,
+    `${translations.transcriptExported}: ${formatDateTime(transcript.exportedAt)}`,
+    '',
+  ];
+  transcript.messages.forEach((message) => {
+    lines.push(`[${formatDateTime(message.dateTime)}] ${getSpeaker(message, translations)}:`, message.message);
+    if (message.fileUploads?.length) {
+      lines.push(`${translations.transcriptAttachments}: ${message.fileUploads.map((file) => file.name).join(', ')}`);
+    }
+    message.agentReasoning?.forEach((agent) =>
+      lines.push(`${agent.agentName ?? translations.transcriptAgent}: ${getAgentText(agent, translations)}`),
+    );
+    if (message.usedTools?.length) lines.push(`${translations.transcriptToolsUsed}: ${message.usedTools.map((tool) => tool.tool).join(', ')}`);
+    if (message.sourceDocuments?.length) lines.push(`${translations.transcriptSources}: ${message.sourceDocuments.map(getSourceName).join(', ')}`);
+    lines.push('');
+  });
+  return lines.join('\n');
+};
+
+const escapeHTML = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const toHTMLList = (title: string, items: string[]) =>
+  `<p class="label">${escapeHTML(title)}</p><ul>${items.map((item) => `<li>${escapeHTML(item)}</li>`).join('')}</ul>`;
+
+export const transcriptToHTML = (transcript: Transcript, translations: Translations) => {
+  const title = escapeHTML(transcript.title ?? translations.transcriptTitle);
+  const messages = transcript.messages
+    .map((message) => {
+      const details = [
+        message.fileUploads?.length
+          ? toHTMLList(
+              translations.transcriptAttachments,
+              message.fileUploads.map((file) => file.name ?? ''),
+            )
+          : '',
+        message.agentReasoning?.length
+          ? toHTMLList(
+              translations.agentMessages,
+              message.agentReasoning.map((agent) => `${agent.agentName ?? translations.transcriptAgent}: ${getAgentText(agent, translations)}`),
+            )
+          : '',
+        message.usedTools?.length
+          ? toHTMLList(
+              translations.transcriptToolsUsed,
+              message.usedTools.map((tool) => tool.tool ?? ''),
+            )
+          : '',
+        message.sourceDocuments?.length ? toHTMLList(translations.transcriptSources, message.sourceDocuments.map(getSourceName)) : '',
+      ].join('');
+      return `<section class="${message.type}"><p class="meta">${escapeHTML(getSpeaker(message, translations))} · ${escapeHTML(
+        formatDateTime(message.dateTime),
+      )}</p><p class="message">${escapeHTML(message.message)}</p>${details}</section>`;
+    })
+    .join('');
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${title}</title><style>
+body { font-family: sans-serif; color: #303235; max-width: 800px; margin: 24px auto; padding: 0 16px; }
+section { border-bottom: 1px solid #eeeeee; padding: 8px 0; break-inside: avoid; }
+.userMessage .meta { color: #3B81F6; }
+.meta, .label { font-size: 12px; font-weight: bold; margin: 4px 0; }
+.message { white-space: pre-wrap; margin: 4px 0; }
+ul { margin: 0; font-size: 13px; }
+</style></head><body><h1>${title}</h1><p class="meta">${escapeHTML(translations.transcriptChatId)}: ${escapeHTML(transcript.chatId)} · ${escapeHTML(
+    translations.transcriptExported,
+  )} ${escapeHTML(formatDateTime(transcript.exportedAt))}</p>${messages}</body></html>`;
+};
+
+const downloadFile = (content: string, fileName: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url));
+};
+
+/**
+ * Downloads the transcript, or opens the printable view for html
+ */
+export const exportTranscript = (transcript: Transcript, format: TranscriptFormat, translations: Translations) => {
+  const fileName = `conversation-${transcript.chatId}`;
+  switch (format) {
+    case 'markdown':
+      downloadFile(transcriptToMarkdown(transcript, translations), `${fileName}.md`, 'text/markdown');
+      break;
+    case 'json':
+      downloadFile(JSON.stringify(transcript, null, 2), `${fileName}.json`, 'application/json');
+      break;
+    case 'text':
+      downloadFile(transcriptToText(transcript, translations), `${fileName}.txt`, 'text/plain');
+      break;
+    case 'html': {
+      const printWindow = window.open('', '_blank');
+      if (!printWindow) {
+        // pop-ups blocked, save the page instead
+        downloadFile(transcriptToHTML(transcript, translations), `${fileName}.html`, 'text/html');
+        return;
+      }
+      printWindow.document.write(transcriptToHTML(transcript, translations));
+      printWindow.document.close();
+      printWindow.focus();
+      printWindow.print();
+      break;
+    }
+  }
+};
@@ -0,0 +1,70 @@
+export type VoiceActivityOptions = {
+  /** Level from 0 to 1 above which the microphone is taken to hear speech */
+  threshold: number;
+  /** Milliseconds of quiet after speech that end the utterance */
+  silenceDuration: number;
+  /** Milliseconds to wait for speech to begin before giving up */
+  noSpeechTimeout: number;
+  onLevel?: (level: number) => void;
+  onSpeechEnd: () => void;
+  onNoSpeech: () => void;
+};
+
+const checkInterval = 50;
+
+/**
+ * Measures the loudness of a microphone stream, as the root mean square of its samples from 0 to 1
+ */
+export const createLevelMeter = (stream: MediaStream) => {
+  const audioContext = new AudioContext();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 512;
+  audioContext.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  return {
+    getLevel: () => {
+      analyser.getFloatTimeDomainData(samples);
+      return Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+    },
+    close: () => {
+      audioContext.close().catch(() => undefined);
+    },
+  };
+};
+
+/**
+ * Watches the level of a microphone stream and calls back once the speaker has gone quiet, or never started.
+ * Runs on a timer rather than animation frames, so it keeps listening while the page is in the background.
+ * @returns a function that stops watching
+ */
+export const watchVoiceActivity = (stream: MediaStream, options: VoiceActivityOptions) => {
+  const levelMeter = createLevelMeter(stream);
+  const startedAt = Date.now();
+  let heardSpeech = false;
+  let lastSpeechAt = startedAt;
+
+  const stop = () => {
+    clearInterval(timer);
+    levelMeter.close();
+  };
+
+  const timer = setInterval(() => {
+    const level = levelMeter.getLevel();
+    options.onLevel?.(level);
+
+    const now = Date.now();
+    if (level >= options.threshold) {
+      heardSpeech = true;
+      lastSpeechAt = now;
+    } else if (heardSpeech && now - lastSpeechAt >= options.silenceDuration) {
+      stop();
+      options.onSpeechEnd();
+    } else if (!heardSpeech && now - startedAt >= options.noSpeechTimeout) {
+      stop();
+      options.onNoSpeech();
+    }
+  }, checkInterval);
+
+  return stop;
+};
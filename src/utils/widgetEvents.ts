@@ -0,0 +1,50 @@
+import type { FeedbackRatingType } from '@/queries/sendMessageQuery';
+
+type ChatEventDetail = {
+  chatflowid: string;
+  chatId: string;
+};
+
+export type WidgetEventMap = {
+  'chat:open': { chatflowid: string };
+  'chat:close': { chatflowid: string };
+  'chat:error': ChatEventDetail & { message: string };
+  'message:sent': ChatEventDetail & {
+    message: string;
+    uploads: { name: string; mime: string; type: string }[];
+    // set when the question is sent again to regenerate its answer
+    regenerated?: boolean;
+  };
+  'message:received': ChatEventDetail & {
+    messageId?: string;
+    message: string;
+    dateTime?: string;
+  };
+  'stream:token': ChatEventDetail & { token: string };
+  'stream:end': ChatEventDetail & { messageId?: string };
+  'feedback:submitted': ChatEventDetail & {
+    messageId: string;
+    rating: FeedbackRatingType;
+    content?: string;
+  };
+  'lead:captured': ChatEventDetail & {
+    name?: string;
+    email?: string;
+    phone?: string;
+  };
+};
+
+export type WidgetEventType = keyof WidgetEventMap;
+
+export type WidgetEventListener<K extends WidgetEventType> = (event: CustomEvent<WidgetEventMap[K]>) => void;
+
+export type EmitWidgetEvent = <K extends WidgetEventType>(type: K, detail: WidgetEventMap[K]) => void;
+
+/**
+ * Dispatches widget events on the custom element, bubbling out of the shadow DOM so the host page can listen anywhere
+ */
+export const createWidgetEventEmitter =
+  (element: HTMLElement): EmitWidgetEvent =>
+  (type, detail) => {
+    element.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  };
@@ -1,5 +1,10 @@
+import { merge } from 'lodash';
 import { observersConfigType } from './components/Bot';
 import { BubbleTheme } from './features/bubble/types';
+import type { LayoutDirection } from './i18n';
+import { WidgetControls, WidgetElement } from './utils/botControls';
+import { ChatStorageOption } from './utils/chatStorage';
+import { WidgetEventListener, WidgetEventType } from './utils/widgetEvents';
 
 /* eslint-disable solid/reactivity */
 type BotProps = {
@@ -9,34 +14,95 @@ type BotProps = {
   chatflowConfig?: Record<string, unknown>;
   observersConfig?: observersConfigType;
   theme?: BubbleTheme;
+  instanceId?: string;
+  storage?: ChatStorageOption;
+  chatId?: string;
+  restoreHistory?: boolean;
+  chatIdSignature?: string;
+  locale?: string;
+  direction?: LayoutDirection;
 };
 
-let elementUsed: Element | undefined;
+export type ChatbotHandle = WidgetControls & {
+  instanceId?: string;
+  setChatflowConfig: (chatflowConfig: Record<string, unknown>) => void;
+  updateTheme: (theme: BubbleTheme) => void;
+  on: <K extends WidgetEventType>(type: K, listener: WidgetEventListener<K>) => void;
+  off: <K extends WidgetEventType>(type: K, listener: WidgetEventListener<K>) => void;
+};
+
+const instances = new Map<ChatbotHandle, Element>();
+
+const createHandle = (element: WidgetElement & Partial<BotProps>, instanceId?: string): ChatbotHandle => ({
+  instanceId,
+  open: () => element.widgetControls?.open(),
+  close: () => element.widgetControls?.close(),
+  toggle: () => element.widgetControls?.toggle(),
+  sendMessage: (text, uploads) => element.widgetControls?.sendMessage(text, uploads),
+  clearChat: () => element.widgetControls?.clearChat(),
+  importConversation: async (transcript) => element.widgetControls?.importConversation(transcript),
+  setChatflowConfig: (chatflowConfig) => {
+    element.chatflowConfig = chatflowConfig;
+  },
+  updateTheme: (theme) => {
+    element.theme = merge({}, element.theme, theme);
+  },
+  on: (type, listener) => element.addEventListener(type, listener as EventListener),
+  off: (type, listener) => element.removeEventListener(type, listener as EventListener),
+});
+
+/** Registers a new instance, replacing any existing one with the same instanceId */
+const addInstance = (element: Element, instanceId?: string) => {
+  instances.forEach((instanceElement, instance) => {
+    if (instance.instanceId !== instanceId) return;
+    // re-initialising the same full page element only replaces its handle
+    if (instanceElement === element) instances.delete(instance);
+    else destroy(instance);
+  });
+  const instance = createHandle(element as WidgetElement, instanceId);
+  instances.set(instance, element);
+  return instance;
+};
 
 export const initFull = (props: BotProps & { id?: string }) => {
-  destroy();
   const fullElement = props.id ? document.getElementById(props.id) : document.querySelector('flowise-fullchatbot');
   if (!fullElement) throw new Error('<flowise-fullchatbot> element not found.');
+  const instance = addInstance(fullElement, props.instanceId);
   Object.assign(fullElement, props);
-  elementUsed = fullElement;
+  return instance;
 };
 
 export const init = (props: BotProps) => {
-  destroy();
   const element = document.createElement('flowise-chatbot');
+  const instance = addInstance(element, props.instanceId);
   Object.assign(element, props);
   document.body.appendChild(element);
-  elementUsed = element;
+  return instance;
+};
+
+/** Removes the given instance, or every instance when called without one */
+export const destroy = (instance?: ChatbotHandle) => {
+  if (instance) {
+    instances.get(instance)?.remove();
+    instances.delete(instance);
+    return;
+  }
+  instances.forEach((element) => element.remove());
+  instances.clear();
 };
 
-export const destroy = () => {
-  elementUsed?.remove();
+/** Loads an exported JSON transcript into the given instance, or the most recently created one */
+export const importConversation = (transcript: Parameters<ChatbotHandle['importConversation']>[0], instance?: ChatbotHandle) => {
+  const target = instance ?? Array.from(instances.keys()).pop();
+  if (!target) return Promise.reject(new Error('No chatbot has been initialised'));
+  return target.importConversation(transcript);
 };
 
 type Chatbot = {
   initFull: typeof initFull;
   init: typeof init;
   destroy: typeof destroy;
+  importConversation: typeof importConversation;
 };
 
 declare const window:
@@ -49,6 +115,7 @@ export const parseChatbot = () => ({
   initFull,
   init,
   destroy,
+  importConversation,
 });
 
 export const injectChatbotInWindow = (bot: Chatbot) => {